@@ -17,7 +17,14 @@ const external = [
 
 export default defineConfig([
   {
-    input: ['src/main.ts', 'src/preload.ts', 'src/renderer.ts'],
+    input: {
+      main: 'src/main.ts',
+      preload: 'src/preload.ts',
+      renderer: 'src/renderer.ts',
+      'serializers/yaml': 'src/serializers/yaml.ts',
+      'serializers/toml': 'src/serializers/toml.ts',
+      'serializers/json5': 'src/serializers/json5.ts'
+    },
     output: [
       {
         entryFileNames: '[name].cjs',
@@ -82,6 +89,13 @@ export default defineConfig([
     output: [{ file: './dist/preload.d.ts', format: 'es' }],
     plugins: [dts()]
   },
+  ...['yaml', 'toml', 'json5'].map((name) =>
+    defineConfig({
+      input: [`dist/types/serializers/${name}.d.ts`],
+      output: [{ file: `./dist/serializers/${name}.d.ts`, format: 'es' }],
+      plugins: [dts()]
+    })
+  ),
   {
     input: ['dist/types/renderer.d.ts'],
     output: [{ file: './dist/renderer.d.ts', format: 'es' }],
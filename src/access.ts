@@ -0,0 +1,44 @@
+type KeyMatch = 'none' | 'inside' | 'ancestor'
+
+function match(key: string[], pattern: string[]): KeyMatch {
+  const length = Math.min(key.length, pattern.length)
+  for (let i = 0; i < length; i++) {
+    if (pattern[i] !== '*' && pattern[i] !== key[i]) {
+      return 'none'
+    }
+  }
+
+  return key.length >= pattern.length ? 'inside' : 'ancestor'
+}
+
+function split(path: string): string[] {
+  return path === '' ? [] : path.split('.')
+}
+
+/**
+ * Check if the key can be accessed with the given key patterns. A key matches
+ * a pattern if it is the pattern path or nested under it, `*` matches any
+ * single segment of the path.
+ * @param key The key to check, `undefined` means the whole config object.
+ * @param allow The patterns of the keys that can be accessed.
+ * @param deny The patterns of the keys that cannot be accessed, which takes
+ * precedence over `allow`. The keys containing a denied key cannot be accessed
+ * either.
+ */
+export function isKeyAllowed(
+  key: string | undefined,
+  allow?: string[],
+  deny?: string[]
+): boolean {
+  const segments = split(key ?? '')
+
+  if (deny && deny.some((p) => match(segments, split(p)) !== 'none')) {
+    return false
+  }
+
+  if (allow && !allow.some((p) => match(segments, split(p)) === 'inside')) {
+    return false
+  }
+
+  return true
+}
@@ -0,0 +1,97 @@
+import path from 'node:path'
+import fs from 'node:fs'
+
+import type { BackupInfo } from './types'
+
+const BACKUP_DIR = 'backups'
+
+const LABEL_RE = /^[\w-]+$/
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Get the directory the backups of the config file are kept in, which is the
+ * `backups` directory next to it.
+ * @param fileName The config file.
+ */
+export function getBackupDir(fileName: string): string {
+  return path.join(path.dirname(fileName), BACKUP_DIR)
+}
+
+/**
+ * List the backups of the config file, the newest first. A backup file is
+ * named `<baseName>.<timestamp>[-<label>]`.
+ * @param fileName The config file.
+ */
+export function getBackups(fileName: string): BackupInfo[] {
+  const dir = getBackupDir(fileName)
+  if (!fs.existsSync(dir)) {
+    return []
+  }
+
+  const re = new RegExp(
+    `^${escapeRegExp(path.basename(fileName))}\\.((\\d+)(?:-([\\w-]+))?)$`
+  )
+
+  const backups: BackupInfo[] = []
+  for (const name of fs.readdirSync(dir)) {
+    const match = re.exec(name)
+    if (match) {
+      backups.push({
+        id: match[1],
+        label: match[3],
+        date: new Date(Number(match[2])),
+        fileName: path.join(dir, name)
+      })
+    }
+  }
+
+  return backups.sort((a, b) => b.date.getTime() - a.date.getTime())
+}
+
+/**
+ * Write a backup of the config file.
+ * @param fileName The config file.
+ * @param data The content of the backup.
+ * @param label The label to name the backup, which only contains word
+ * characters and `-`.
+ */
+export function writeBackup(
+  fileName: string,
+  data: string | Buffer,
+  label?: string
+): BackupInfo {
+  if (label !== undefined && !LABEL_RE.test(label)) {
+    throw new TypeError(
+      `The backup label '${label}' can only contain word characters and '-'.`
+    )
+  }
+
+  // Keep the timestamps unique, so that the backups are ordered.
+  const [latest] = getBackups(fileName)
+  const time = Math.max(Date.now(), latest ? latest.date.getTime() + 1 : 0)
+
+  const id = label ? `${time}-${label}` : String(time)
+  const dir = getBackupDir(fileName)
+  const backupFileName = path.join(dir, `${path.basename(fileName)}.${id}`)
+
+  fs.mkdirSync(dir, { recursive: true })
+  fs.writeFileSync(backupFileName, data, { mode: 0o666 })
+
+  return { id, label, date: new Date(time), fileName: backupFileName }
+}
+
+/**
+ * Remove the oldest automatic backups, which have no labels, to keep the
+ * given number of them.
+ * @param fileName The config file.
+ * @param count The number of the automatic backups to keep.
+ */
+export function rotateBackups(fileName: string, count: number): void {
+  const backups = getBackups(fileName).filter((b) => !b.label)
+  for (const backup of backups.slice(count)) {
+    fs.rmSync(backup.fileName, { force: true })
+  }
+}
@@ -7,24 +7,70 @@
 import path from 'node:path'
 import fs from 'node:fs'
 import Ajv from 'ajv'
-import { writeFileSync as atomicWriteFileSync } from 'atomically'
-import { getProperty, hasProperty, setProperty, deleteProperty } from 'dot-prop'
+import {
+  writeFile as atomicWriteFile,
+  writeFileSync as atomicWriteFileSync
+} from 'atomically'
+import {
+  getProperty,
+  hasProperty,
+  setProperty,
+  deleteProperty,
+  escapePath
+} from 'dot-prop'
+import semver from 'semver'
 
 import {
   deepEqual,
   createPlainObject,
   cloneObject,
   mergeObject,
-  deepCloneObject
+  deepMergeObject,
+  deepCloneObject,
+  isPlainObject,
+  getSchemaDefaults,
+  diffObject,
+  INTERNAL_KEY
 } from './utils'
+import { createAesCipher } from './encryption'
+import { lockSync, refreshLock } from './lock'
+import { getBackups, writeBackup, rotateBackups } from './backup'
+import { getOverrides } from './overrides'
+import {
+  type Source,
+  readSources,
+  getLeafPaths,
+  overlaps,
+  findLockedSource,
+  findSource
+} from './sources'
+import { ConfError, ReservedKeyError, toConfError } from './errors'
+import { createHost } from './host'
+import { type PortMessage, listenPort } from './port'
 
 import type {
   Options,
+  SetOptions,
+  SourceInfo,
+  BackupOptions,
+  BackupInfo,
+  ConfChange,
+  ChangeInfo,
+  OnDidChangeDetailedCallback,
   Serializer,
+  Cipher,
   ValidateFn,
   Migration,
+  MigrationContext,
+  DotPath,
+  DotPathValue,
+  DotPathValueOrDefault,
   OnDidChangeCallback,
   OnDidAnyChangeCallback,
+  OnErrorCallback,
+  OnCorruptCallback,
+  MessagePortLike,
+  PortListenerOptions,
   Unsubscribe
 } from './types'
 
@@ -33,11 +79,105 @@ const JsonSerializer: Serializer<any> = {
   write: (value): string => JSON.stringify(value, undefined, '\t')
 }
 
-const INTERNAL_KEY = '__internal__'
 const MIGRATION_KEY = `${INTERNAL_KEY}.migrationVersion`
+// key -> the timestamp when the item expires
+const EXPIRES_KEY = `${INTERNAL_KEY}.expires`
 
 const BAN_TYPES = new Set(['undefined', 'symbol', 'function'])
 
+const WATCH_DEBOUNCE = 100
+
+const DEFAULT_BACKUP_COUNT = 10
+
+const DEFAULT_HISTORY_LIMIT = 100
+
+function minVersion<T extends Record<string, any>>(
+  migration: Migration<T>
+): string {
+  return semver.minVersion(migration.version as string)?.version || '0.0.0'
+}
+
+/**
+ * Whether the semver migration has been performed at the version, that is,
+ * the version is greater than or equal to an exact migration version, or
+ * satisfies a migration range.
+ */
+function isMigrated<T extends Record<string, any>>(
+  migration: Migration<T>,
+  version: string
+): boolean {
+  const migrationVersion = migration.version as string
+  return semver.valid(migrationVersion)
+    ? semver.gte(version, migrationVersion)
+    : semver.satisfies(version, migrationVersion)
+}
+
+/**
+ * Get the keys of the expired items, the expiries are keyed by the
+ * dot-notation paths of the items.
+ */
+function getExpiredKeys(store: Record<string, any>): string[] {
+  const expires: Record<string, number> = getProperty(store, EXPIRES_KEY, {})
+  const now = Date.now()
+  return Object.keys(expires).filter((key) => expires[key] <= now)
+}
+
+/**
+ * Remove the expiry of the item and the nested items, which are overwritten
+ * or deleted.
+ */
+function clearExpiry(store: Record<string, any>, key: string): void {
+  const expires: Record<string, number> | undefined = getProperty(
+    store,
+    EXPIRES_KEY
+  )
+  if (!expires) {
+    return
+  }
+
+  for (const path of Object.keys(expires)) {
+    if (path === key || path.startsWith(`${key}.`)) {
+      delete expires[path]
+    }
+  }
+
+  if (!Object.keys(expires).length) {
+    deleteProperty(store, EXPIRES_KEY)
+
+    if (!Object.keys(store[INTERNAL_KEY]).length) {
+      delete store[INTERNAL_KEY]
+    }
+  }
+}
+
+type MigrationPlan<T extends Record<string, any>> = {
+  steps: [Migration<T>, 'up' | 'down'][]
+  fromVersion: number | string
+  toVersion: number | string
+  isSemver: boolean
+}
+
+// Set by `create()` to perform the migrations after the instance is created.
+let deferMigrations = false
+
+class ConfErrorEvent extends Event {
+  constructor(readonly error: unknown) {
+    super('error')
+  }
+}
+
+type ChangeSource = Omit<ChangeInfo, 'changes'>
+
+/**
+ * The `change` event dispatched on `events`, which carries the changed paths
+ * and the origin of the changes.
+ */
+export class ConfChangeEvent extends Event {
+  constructor(readonly info: ChangeInfo) {
+    super('change')
+  }
+}
+
 export class BaseConf<T extends Record<string, any> = Record<string, unknown>>
   implements Iterable<[keyof T, T[keyof T]]>
 {
@@ -52,96 +192,541 @@ export class BaseConf<T extends Record<string, any> = Record<string, unknown>>
   readonly events: EventTarget
 
   private _store?: T
+  private batchStore?: T
 
   private dir: string
 
   private serializer: Serializer<T>
+  private cipher?: Cipher
   private validator?: ValidateFn
+  // the validator fills in the missing items with the schema defaults.
+  private defaultsValidator?: ValidateFn
+  private loadWithDefaults = false
+
+  private clearInvalidConfig: boolean
+  private onCorrupt?: OnCorruptCallback
+
+  private asyncWrite: boolean
+  private scheduledWrite?: Promise<void>
+  private lastWrite: Promise<void> = Promise.resolve()
+  private writeQueue: Promise<void> = Promise.resolve()
+  private pendingWrites = 0
+
+  private lock: boolean
+  private lockDepth = 0
+
+  private watcher?: fs.FSWatcher
+  private watchTimer?: ReturnType<typeof setTimeout>
+
+  private backupCount = DEFAULT_BACKUP_COUNT
+  private backupOnWrite = false
+  private backupInterval?: number
+  private backupTimer?: ReturnType<typeof setInterval>
+
+  private historyLimit = 0
+  private undoStack: ConfChange[][] = []
+  private redoStack: ConfChange[][] = []
+  private recordDepth = 0
+
+  private changeSource: ChangeSource = { origin: 'main' }
+
+  // key -> the override value
+  private overrides: Record<string, unknown> = {}
+
+  private sources: Source[] = []
+  private sourceStore: Record<string, unknown> = {}
+  // the live store merged from the store and its expired keys
+  private liveStoreCache?: { store: T; expired: string[]; value: T }
+
+  private listeners = new Set<Unsubscribe>()
+  // stop serving the ports of `servePort()`
+  private portListeners = new Set<() => void>()
+  private disposed = false
   defaultValues: Partial<T> = {}
 
+  private migrationOptions: Options<T>
+  private deferredMigrations?: Options<T>
+
+  private defaultsMerge: 'shallow' | 'deep'
+  private arrayMerge: 'replace' | 'union'
+
   constructor(options: Options<T> = {}) {
     const {
       dir = process.cwd(),
       name = 'config',
-      ext = '.json',
       serializer,
+      ext = serializer?.ext || '.json',
       schema,
       defaults,
-      migrations
+      defaultsMerge = 'shallow',
+      arrayMerge = 'replace',
+      watch = false,
+      async = false,
+      lock = false,
+      encryption,
+      onCorrupt,
+      clearInvalidConfig = !!onCorrupt,
+      backup = false,
+      history = false,
+      overrides,
+      sources,
+      dryRunMigrations = false
     } = options
 
     this.dir = dir
     this.name = name
 
+    this.migrationOptions = options
+
     this.fileName = path.join(dir, `${name}${ext}`)
 
     this.events = new EventTarget()
 
     this.serializer = serializer || JsonSerializer
 
+    if (lock && async) {
+      throw new TypeError(
+        "The 'lock' option cannot be used with the 'async' option."
+      )
+    }
+
+    this.asyncWrite = async
+    this.lock = lock
+
+    this.clearInvalidConfig = clearInvalidConfig
+    this.onCorrupt = onCorrupt
+
+    if (encryption) {
+      this.cipher =
+        typeof encryption === 'string' || encryption instanceof Uint8Array
+          ? createAesCipher(encryption)
+          : encryption
+    }
+
     if (schema) {
       this.validator = new Ajv({ allErrors: true }).compile(schema)
+      this.defaultsValidator = new Ajv({
+        allErrors: true,
+        useDefaults: true
+      }).compile(schema)
+    }
+
+    if (backup) {
+      const { count = DEFAULT_BACKUP_COUNT, interval }: BackupOptions =
+        backup === true ? {} : backup
+      this.backupCount = count
+      this.backupOnWrite = !interval
+      this.backupInterval = interval
+    }
+
+    if (history) {
+      this.historyLimit =
+        (history === true ? undefined : history.limit) ?? DEFAULT_HISTORY_LIMIT
+    }
+
+    if (overrides) {
+      for (const [key, value] of Object.entries(getOverrides(overrides))) {
+        if (!this.containsReservedKey(key)) {
+          this.overrides[key] = value
+        }
+      }
+    }
+
+    if (sources) {
+      this.sources = readSources(sources, this.serializer)
+      this.sourceStore = deepMergeObject(this.sources.map((s) => s.data))
+    }
+
+    this.defaultsMerge = defaultsMerge
+    this.arrayMerge = arrayMerge
+
+    this.defaultValues = {
+      ...this.mergeDefaults(
+        schema ? getSchemaDefaults<T>(schema) : {},
+        deepCloneObject(defaults)
+      )
+    }
+
+    this.withLock(() => {
+      // call the getter to read the store file.
+      const fileStore = this.store
+
+      if (Object.keys(this.defaultValues).length) {
+        const store = this.mergeDefaults(this.fileDefaults, fileStore)
+        this.validate(store, true)
+
+        if (!deepEqual(fileStore, store)) {
+          this.store = store
+        }
+      }
+
+      if (dryRunMigrations) {
+        return
+      }
+
+      if (deferMigrations) {
+        this.deferredMigrations = options
+      } else {
+        this.migrate(options)
+      }
+    })
+
+    // The explicit defaults take precedence over the schema defaults, which
+    // are merged above when the config file is first loaded.
+    this.loadWithDefaults = true
+
+    if (watch) {
+      this.watch()
     }
 
-    // call the getter to read the store file.
-    const fileStore = this.store
+    if (this.backupInterval) {
+      this.backupTimer = setInterval(
+        () => this.autoBackup(),
+        this.backupInterval
+      )
+      this.backupTimer.unref?.()
+    }
+  }
 
-    if (defaults) {
-      this.defaultValues = { ...defaults }
+  /**
+   * Create the config instance asynchronously, which waits for the
+   * asynchronous migration hooks to finish before the instance is used.
+   * If any migration fails, the config file is restored and the returned
+   * promise is rejected.
+   *
+   * @example
+   * ```
+   * import { Conf } from 'electron-conf/main'
+   *
+   * const conf = await Conf.create({
+   *   migrations: [
+   *     {
+   *       version: 1,
+   *       hook: async (conf): Promise<void> => {
+   *         conf.set('foo', await readLegacyConfig())
+   *       }
+   *     }
+   *   ]
+   * })
+   * ```
+   */
+  static async create<T extends Record<string, any> = Record<string, unknown>>(
+    options?: Options<T>
+  ): Promise<BaseConf<T>> {
+    let instance: BaseConf<T>
+
+    deferMigrations = true
+    try {
+      instance = new this(options) as BaseConf<T>
+    } finally {
+      deferMigrations = false
+    }
 
-      const store = mergeObject<T>(deepCloneObject(defaults), fileStore)
-      this.validate(store)
+    const migrationOptions = instance.deferredMigrations
+    instance.deferredMigrations = undefined
 
-      if (!deepEqual(fileStore, store)) {
-        this.store = store
+    if (migrationOptions) {
+      try {
+        await instance.withLock(() => instance.migrateAsync(migrationOptions))
+      } catch (error) {
+        instance.dispose()
+        throw error
       }
     }
 
-    this.migrate(migrations)
+    return instance
   }
 
+  /**
+   * Iterate the items as `get()` reads them, without the internal and the
+   * expired items.
+   */
   *[Symbol.iterator](): IterableIterator<[keyof T, T[keyof T]]> {
-    for (const [key, value] of Object.entries(this.store)) {
+    for (const [key, value] of Object.entries(this.visibleStore)) {
       yield [key, value]
     }
   }
 
+  /**
+   * The number of the items, without the internal and the expired items.
+   */
+  get size(): number {
+    return Object.keys(this.visibleStore).length
+  }
+
+  private get visibleStore(): T {
+    const store = cloneObject(this.liveStore)
+    delete store[INTERNAL_KEY]
+    return store
+  }
+
   get store(): T {
+    this.assertNotDisposed()
+
+    if (this.batchStore) {
+      return cloneObject(this.batchStore)
+    }
+
     if (this._store) {
       return cloneObject(this._store)
     }
 
-    this._store = this.read()
-    this.validate(this._store)
+    this._store = this.load()
     return this._store
   }
 
   set store(value: T) {
+    this.assertNotDisposed()
+
+    if (this.batchStore) {
+      this.batchStore = value
+      return
+    }
+
     this.validate(value)
-    this.write(value)
+
+    if (this.asyncWrite) {
+      this.scheduleWrite()
+    } else {
+      this.write(value)
+    }
+
+    const changes = diffObject(this._store ?? createPlainObject(), value)
 
     this._store = value
 
-    this.events.dispatchEvent(new Event('change'))
+    this.dispatchChange(changes, this.changeSource)
+  }
+
+  /**
+   * Get the migrations to perform in order, for the version of the config
+   * file and the `migrations` option. It is empty once the migrations are
+   * performed, unless the `dryRunMigrations` option is enabled.
+   *
+   * @example
+   * ```
+   * import { Conf } from 'electron-conf/main'
+   *
+   * const conf = new Conf({ migrations, dryRunMigrations: true })
+   *
+   * for (const { version, direction } of conf.planMigrations()) {
+   *   console.log(`${direction} ${version}`)
+   * }
+   * ```
+   */
+  planMigrations(): MigrationContext[] {
+    const plan = this.migrationPlan(this.migrationOptions)
+    if (!plan) {
+      return []
+    }
+
+    const { steps, fromVersion, toVersion } = plan
+    return steps.map(([migration, direction]) => ({
+      version: migration.version,
+      fromVersion,
+      toVersion,
+      direction
+    }))
+  }
+
+  /**
+   * Plan the migrations from the version of the config file, which is
+   * `undefined` if the config is up to date.
+   */
+  private migrationPlan(options: Options<T>): MigrationPlan<T> | undefined {
+    const { migrations, projectVersion } = options
+
+    if (!migrations || !migrations.length) {
+      return undefined
+    }
+
+    const isSemver = migrations.some((m) => typeof m.version === 'string')
+
+    if (isSemver && migrations.some((m) => typeof m.version !== 'string')) {
+      throw new TypeError(
+        'The migration versions must be either all numbers or all semver strings.'
+      )
+    }
+
+    if (isSemver && !projectVersion) {
+      throw new Error(
+        "Please specify the 'projectVersion' option to use semver migrations."
+      )
+    }
+
+    const steps: [Migration<T>, 'up' | 'down'][] = []
+    let fromVersion: number | string
+    let toVersion: number | string
+
+    if (isSemver) {
+      const stored = getProperty(this.store, MIGRATION_KEY)
+      fromVersion =
+        typeof stored === 'string' && semver.valid(stored) ? stored : '0.0.0'
+      toVersion = projectVersion!
+
+      const byVersion = (a: Migration<T>, b: Migration<T>): number =>
+        semver.compare(minVersion(a), minVersion(b))
+      const sorted = [...migrations].sort(byVersion)
+
+      for (const migration of [...sorted].reverse()) {
+        if (
+          migration.down &&
+          isMigrated(migration, fromVersion) &&
+          !isMigrated(migration, toVersion)
+        ) {
+          steps.push([migration, 'down'])
+        }
+      }
+
+      for (const migration of sorted) {
+        if (
+          !isMigrated(migration, fromVersion) &&
+          isMigrated(migration, toVersion)
+        ) {
+          steps.push([migration, 'up'])
+        }
+      }
+    } else {
+      fromVersion = getProperty(this.store, MIGRATION_KEY, 0)
+
+      const sorted = [...migrations]
+        .sort((a, b) => (a.version as number) - (b.version as number))
+        .filter((m) => (m.version as number) > (fromVersion as number))
+
+      for (const migration of sorted) {
+        steps.push([migration, 'up'])
+      }
+
+      toVersion = steps.length
+        ? steps[steps.length - 1][0].version
+        : fromVersion
+    }
+
+    if (!steps.length && fromVersion === toVersion) {
+      return undefined
+    }
+
+    return { steps, fromVersion, toVersion, isSemver }
+  }
+
+  /**
+   * Create the tasks to perform the migrations in order, which are empty if
+   * the config is up to date.
+   */
+  private migrationTasks(options: Options<T>): (() => unknown)[] {
+    const plan = this.migrationPlan(options)
+    if (!plan) {
+      return []
+    }
+
+    const { steps, fromVersion, toVersion, isSemver } = plan
+    const { beforeEachMigration, afterEachMigration } = options
+
+    const tasks: (() => unknown)[] = []
+    let version = fromVersion
+
+    for (const [migration, direction] of steps) {
+      const context: MigrationContext = {
+        version: migration.version,
+        fromVersion,
+        toVersion,
+        direction
+      }
+
+      if (beforeEachMigration) {
+        tasks.push(() => beforeEachMigration(this, context))
+      }
+
+      tasks.push(() =>
+        direction === 'up'
+          ? migration.hook(this, version)
+          : migration.down!(this, version)
+      )
+
+      if (afterEachMigration) {
+        tasks.push(() => afterEachMigration(this, context))
+      }
+
+      if (!isSemver) {
+        tasks.push(() => {
+          version = migration.version
+          this.setMigrationVersion(version)
+        })
+      }
+    }
+
+    if (isSemver) {
+      tasks.push(() => this.setMigrationVersion(toVersion))
+    }
+
+    return tasks
   }
 
-  private migrate(migrations?: Migration<T>[]): void {
-    if (migrations && migrations.length) {
-      let version: number = getProperty(this.store, MIGRATION_KEY, 0)
-      const _migrations = migrations
-        .sort((a, b) => a.version - b.version)
-        .filter((m) => m.version > version)
+  private setMigrationVersion(version: number | string): void {
+    const store = cloneObject(deepCloneObject(this.store))
+    setProperty(store, MIGRATION_KEY, version)
+    this.store = store
+  }
+
+  private migrate(options: Options<T>): void {
+    const tasks = this.migrationTasks(options)
+    if (!tasks.length) {
+      return
+    }
 
-      for (const migration of _migrations) {
-        migration.hook(this, version)
+    // Restore the store if any migration fails, so that it will not be left
+    // half-migrated.
+    const snapshot = cloneObject(deepCloneObject(this.store))
+
+    // The migrations are not recorded in the history.
+    this.recordDepth++
+    this.changeSource = { origin: 'migration' }
+    try {
+      for (const task of tasks) {
+        const result = task()
+        if (result instanceof Promise) {
+          // The hook keeps running, its late mutations fail on the disposed
+          // instance, and its rejection is ignored.
+          result.catch(() => {})
+          this.store = snapshot
+          this.dispose()
+
+          throw new TypeError(
+            "The migration is asynchronous, please use 'await Conf.create()' to create the config instance."
+          )
+        }
+      }
+    } catch (error) {
+      if (!this.disposed) {
+        this.store = snapshot
+      }
+      throw error
+    } finally {
+      this.recordDepth--
+      this.changeSource = { origin: 'main' }
+    }
+  }
 
-        const { store } = this
-        setProperty(store, MIGRATION_KEY, migration.version)
+  private async migrateAsync(options: Options<T>): Promise<void> {
+    const tasks = this.migrationTasks(options)
+    if (!tasks.length) {
+      return
+    }
 
-        version = migration.version
+    const snapshot = cloneObject(deepCloneObject(this.store))
 
-        this.store = store
+    this.recordDepth++
+    this.changeSource = { origin: 'migration' }
+    try {
+      for (const task of tasks) {
+        await task()
       }
+    } catch (error) {
+      this.store = snapshot
+      throw error
+    } finally {
+      this.recordDepth--
+      this.changeSource = { origin: 'main' }
     }
   }
 
@@ -160,15 +745,13 @@ export class BaseConf<T extends Record<string, any> = Record<string, unknown>>
    * conf.get('a.b')
    * ```
    */
-  get<K extends keyof T>(key: K): T[K]
-  get<K extends keyof T>(key: K, defaultValue: Required<T>[K]): Required<T>[K]
-  get<K extends string, V = unknown>(
-    key: Exclude<K, keyof T>,
-    defaultValue?: V
-  ): V
-  get(key: string, defaultValue?: unknown): unknown
+  get<P extends DotPath<T>>(key: P): DotPathValue<T, P>
+  get<P extends DotPath<T>, V extends DotPathValueOrDefault<T, P, unknown>>(
+    key: P,
+    defaultValue: V
+  ): DotPathValueOrDefault<T, P, V>
   get(key: string, defaultValue?: unknown): unknown {
-    return getProperty(this.store, key, defaultValue)
+    return getProperty(this.liveStore, key, defaultValue)
   }
 
   /**
@@ -176,6 +759,8 @@ export class BaseConf<T extends Record<string, any> = Record<string, unknown>>
    *
    * @param key The key of the item or a hashmap of items to set at once.
    * @param value Must be JSON serializable. Trying to set the type `undefined`, `function`, or `symbol` will result in a `TypeError`.
+   * @param options Set the `ttl` in milliseconds, after which the items read
+   * as missing, until they are set again or removed by `prune()`.
    *
    * @example
    * ```
@@ -186,19 +771,27 @@ export class BaseConf<T extends Record<string, any> = Record<string, unknown>>
    * conf.set('foo', 1)
    * conf.set('a.b', 2)
    * conf.set({ foo: 1, a: { b: 2 }})
+   * conf.set('flags', flags, { ttl: 60 * 60 * 1000 })
    * ```
    */
-  set<K extends keyof T>(key: K, value?: T[K]): void
-  set(key: string, value: unknown): void
-  set(object: Partial<T>): void
-  set<K extends keyof T>(
-    key: Partial<T> | K | string,
-    value?: T[K] | unknown
+  set<P extends DotPath<T>>(
+    key: P,
+    value: Exclude<DotPathValue<T, P>, undefined>,
+    options?: SetOptions
   ): void
-  set<K extends keyof T>(
-    key: Partial<T> | K | string,
-    value?: T[K] | unknown
-  ): void {
+  set(object: Partial<T>, options?: SetOptions): void
+  set(key: Partial<T> | string, value?: unknown, options?: SetOptions): void {
+    if (typeof key === 'object') {
+      options = value as SetOptions | undefined
+    }
+
+    const { ttl } = options || {}
+    if (ttl !== undefined && !(typeof ttl === 'number' && ttl > 0)) {
+      throw new TypeError(
+        `Expected 'ttl' to be a positive number, got '${ttl}'.`
+      )
+    }
+
     if (typeof key !== 'string' && typeof key !== 'object') {
       throw new TypeError(
         `Expected 'key' to be of type 'string' or 'object', got '${typeof key}'.`
@@ -210,70 +803,167 @@ export class BaseConf<T extends Record<string, any> = Record<string, unknown>>
     }
 
     if (this.containsReservedKey(key)) {
-      throw new TypeError(
+      throw new ReservedKeyError(
         `Please don't use the ${INTERNAL_KEY} key, as it's used to manage this module internal operations.`
       )
     }
 
-    const { store } = this
-
-    const set = (key: string, value?: T[K] | T | unknown): void => {
-      const type = typeof value
-
-      if (BAN_TYPES.has(type)) {
-        throw new TypeError(
-          `Setting a value of type '${type}' for key '${key}' is not allowed as it's not supported.`
+    for (const path of typeof key === 'object' ? Object.keys(key) : [key]) {
+      const source = findLockedSource(this.sources, path)
+      if (source) {
+        throw new ConfError(
+          'ACCESS_DENIED',
+          `The key '${path}' is locked by '${source.fileName}'.`
         )
       }
-
-      setProperty(store, key, value)
     }
 
-    if (typeof key === 'object') {
-      const object = key
-      for (const [key, value] of Object.entries(object)) {
+    this.mutate(() => {
+      const store = cloneObject(deepCloneObject(this.store))
+
+      const set = (key: string, value?: unknown): void => {
+        const type = typeof value
+
+        if (BAN_TYPES.has(type)) {
+          throw new TypeError(
+            `Setting a value of type '${type}' for key '${key}' is not allowed as it's not supported.`
+          )
+        }
+
+        // The expired parent items are removed, which would hide the item.
+        // The item nested under an unexpired one expires along with it.
+        for (const path of getExpiredKeys(store)) {
+          if (key.startsWith(`${path}.`)) {
+            deleteProperty(store, path)
+            clearExpiry(store, path)
+          }
+        }
+
+        setProperty(store, key, value)
+
+        clearExpiry(store, key)
+        if (ttl) {
+          setProperty(
+            store,
+            `${EXPIRES_KEY}.${escapePath(key)}`,
+            Date.now() + ttl
+          )
+        }
+      }
+
+      if (typeof key === 'object') {
+        const object = key
+        for (const [key, value] of Object.entries(object)) {
+          set(key, value)
+        }
+      } else {
         set(key, value)
       }
-    } else {
-      set(key, value)
+
+      this.store = store
+    })
+  }
+
+  /**
+   * Apply multiple mutations at once. The mutations in the `callback` are
+   * applied to a working copy of the store, which is validated and written
+   * once, and the change callbacks are called once. If the `callback` throws
+   * or the result fails validation, all the mutations are rolled back.
+   *
+   * **Note:** The `callback` must be synchronous.
+   *
+   * @param callback A callback function that performs the mutations.
+   *
+   * @example
+   * ```
+   * import { Conf } from 'electron-conf/main'
+   *
+   * const conf = new Conf()
+   *
+   * conf.batch(() => {
+   *   conf.set('foo', 1)
+   *   conf.delete('bar')
+   *   conf.reset('baz')
+   * })
+   * ```
+   */
+  batch(callback: () => void): void {
+    if (this.batchStore) {
+      callback()
+      return
     }
 
-    this.store = store
+    this.mutate(() => {
+      this.batchStore = cloneObject(deepCloneObject(this.store))
+
+      let store: T
+      try {
+        callback()
+        store = this.batchStore
+      } finally {
+        this.batchStore = undefined
+      }
+
+      this.store = store
+    })
   }
 
   /**
    * Check if an item exists.
    * @param key The key of the item to check.
    */
-  has<Key extends keyof T>(key: Key | string): boolean {
-    return hasProperty(this.store, key as string)
+  has(key: DotPath<T>): boolean {
+    return hasProperty(this.liveStore, key as string)
   }
 
   /**
    * Reset items to their default values, as defined by the `defaults` or `schema` option.
    * @param keys The keys of the items to reset.
    */
-  reset<Key extends keyof T>(...keys: Key[]): void {
-    for (const key of keys) {
-      const value = deepCloneObject(this.defaultValues[key])
-      if (value !== undefined && value !== null) {
-        this.set(key, value)
-      }
-    }
+  reset(...keys: DotPath<T>[]): void {
+    this.withOrigin({ origin: 'reset' }, () => {
+      this.mutate(() => {
+        const defaults = this.fileDefaults
+
+        for (const key of keys) {
+          const value = getProperty(defaults, key)
+
+          // Let the values of the sources show through, along with the
+          // default values of the items they don't supply.
+          if (findSource(this.sources, key)) {
+            this.delete(key)
+            if (isPlainObject(value)) {
+              for (const path of getLeafPaths(value)) {
+                const nestedKey = `${key}.${path}`
+                if (!findLockedSource(this.sources, nestedKey)) {
+                  this.set(nestedKey as any, getProperty(value, path) as any)
+                }
+              }
+            }
+            continue
+          }
+
+          if (value !== undefined && value !== null) {
+            this.set(key, value as any)
+          }
+        }
+      })
+    })
   }
 
   /**
    * Delete an item.
    * @param key The key of the item to delete.
    */
-  delete<Key extends keyof T>(key: Key): void
-  delete(key: string): void
-  delete(key: string): void {
-    const { store } = this
+  delete(key: DotPath<T>): void {
+    this.mutate(() => {
+      const store = cloneObject(deepCloneObject(this.store))
 
-    deleteProperty(store, key)
+      deleteProperty(store, key)
+      clearExpiry(store, key)
 
-    this.store = store
+      this.store = store
+    })
   }
 
   /**
@@ -281,32 +971,420 @@ export class BaseConf<T extends Record<string, any> = Record<string, unknown>>
    * defined by the `defaults` or `schema` option.
    */
   clear(): void {
-    this.store = createPlainObject()
-
-    this.reset(...Object.keys(this.defaultValues))
-  }
+    this.mutate(() => {
+      this.store = createPlainObject()
 
-  private ensureDirectory(): void {
-    fs.mkdirSync(this.dir, { recursive: true })
+      this.reset(...(Object.keys(this.defaultValues) as DotPath<T>[]))
+    })
   }
 
-  private read(): T {
-    if (!fs.existsSync(this.fileName)) {
-      this.ensureDirectory()
-      return createPlainObject()
+  /**
+   * Remove the expired items, which are set with the `ttl` option.
+   */
+  prune(): void {
+    const expired = getExpiredKeys(this.store)
+    if (!expired.length) {
+      return
     }
 
-    const data = fs.readFileSync(this.fileName, 'utf8')
-    const deserializedData = this.serializer.read(data)
+    this.mutate(() => {
+      const store = cloneObject(deepCloneObject(this.store))
+
+      for (const key of getExpiredKeys(store)) {
+        deleteProperty(store, key)
+        clearExpiry(store, key)
+      }
 
-    return cloneObject(deserializedData)
+      this.store = store
+    })
   }
 
-  private write(value: T): void {
-    this.ensureDirectory()
+  /**
+   * Check if the item is overridden by the `overrides` option, including the
+   * items nested under or containing an overridden item.
+   * @param key The key of the item to check.
+   */
+  isOverridden(key: DotPath<T>): boolean {
+    return Object.keys(this.overrides).some((path) => overlaps(key, path))
+  }
+
+  /**
+   * Get the layer that supplies the value of the item, see the `sources` and
+   * `overrides` options. The value of the config file which is equal to the
+   * default value is reported as `default`.
+   * @param key The key of the item.
+   * @returns `undefined` if the item does not exist.
+   */
+  getSource(key: DotPath<T>): SourceInfo | undefined {
+    const path = key as string
+    const supplies = (p: string): boolean =>
+      path === p || path.startsWith(`${p}.`)
+
+    if (Object.keys(this.overrides).some(supplies)) {
+      return { type: 'override' }
+    }
+
+    for (let i = this.sources.length - 1; i >= 0; i--) {
+      const { fileName, locked } = this.sources[i]
+      if (locked.some(supplies)) {
+        return { type: 'source', fileName, locked: true }
+      }
+    }
+
+    const value = getProperty(this.store, path)
+    if (value !== undefined && !getExpiredKeys(this.store).some(supplies)) {
+      return deepEqual(value, getProperty(this.defaultValues, path))
+        ? { type: 'default' }
+        : { type: 'user' }
+    }
+
+    const source = findSource(this.sources, path)
+    if (source) {
+      return { type: 'source', fileName: source.fileName, locked: false }
+    }
+
+    return undefined
+  }
+
+  /**
+   * The default values kept in the config file, without the items supplied by
+   * the sources, which the default values would shadow.
+   */
+  private get fileDefaults(): Partial<T> {
+    const defaults = deepCloneObject(this.defaultValues)
+    for (const key of getLeafPaths(this.sourceStore)) {
+      deleteProperty(defaults, key)
+    }
+    return defaults
+  }
+
+  /**
+   * The store to read from, which resolves the values through the layers of
+   * the sources and overrides, without the expired items.
+   */
+  protected get liveStore(): T {
+    const { store } = this
+
+    const expired = getExpiredKeys(store)
+    if (
+      !expired.length &&
+      !Object.keys(this.overrides).length &&
+      !this.sources.length
+    ) {
+      return store
+    }
+
+    // The layers are merged once for each store, rather than on each read.
+    const rawStore = this.batchStore || this._store!
+    const cache = this.liveStoreCache
+    if (
+      !cache ||
+      cache.store !== rawStore ||
+      !deepEqual(cache.expired, expired)
+    ) {
+      this.liveStoreCache = {
+        store: rawStore,
+        expired,
+        value: this.mergeLayers(store, expired)
+      }
+    }
+
+    return cloneObject(this.liveStoreCache!.value)
+  }
+
+  private mergeLayers(store: T, expired: string[]): T {
+    let liveStore = cloneObject(deepCloneObject(store))
+    for (const key of expired) {
+      deleteProperty(liveStore, key)
+    }
+    // The default values are kept in the config file, which is merged over
+    // the sources.
+    if (this.sources.length) {
+      liveStore = deepMergeObject([this.sourceStore, liveStore])
+      for (const { data, locked } of this.sources) {
+        for (const key of locked) {
+          setProperty(liveStore, key, deepCloneObject(getProperty(data, key)))
+        }
+      }
+    }
+    for (const [key, value] of Object.entries(this.overrides)) {
+      setProperty(liveStore, key, deepCloneObject(value))
+    }
+    return liveStore
+  }
+
+  /**
+   * Whether there is a mutation to undo, see the `history` option.
+   */
+  get canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  /**
+   * Whether there is an undone mutation to redo, see the `history` option.
+   */
+  get canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  /**
+   * Revert the last mutation recorded by the `history` option.
+   * @returns Whether a mutation is reverted.
+   *
+   * @example
+   * ```
+   * import { Conf } from 'electron-conf/main'
+   *
+   * const conf = new Conf({ history: true })
+   *
+   * conf.set('foo', 1)
+   * conf.set('foo', 2)
+   * conf.undo()
+   * conf.get('foo') // => 1
+   * conf.redo()
+   * conf.get('foo') // => 2
+   * ```
+   */
+  undo(): boolean {
+    return this.travel(this.undoStack, this.redoStack, 'oldValue')
+  }
+
+  /**
+   * Reapply the last mutation reverted by `undo()`.
+   * @returns Whether a mutation is reapplied.
+   */
+  redo(): boolean {
+    return this.travel(this.redoStack, this.undoStack, 'newValue')
+  }
+
+  private travel(
+    from: ConfChange[][],
+    to: ConfChange[][],
+    field: 'oldValue' | 'newValue'
+  ): boolean {
+    const changes = from[from.length - 1]
+    if (!changes) {
+      return false
+    }
+
+    this.withLock(() => {
+      const store = cloneObject(deepCloneObject(this.store))
+
+      for (const change of changes) {
+        const value = change[field]
+        if (value === undefined) {
+          deleteProperty(store, change.path)
+        } else {
+          setProperty(store, change.path, deepCloneObject(value))
+        }
+      }
+
+      this.store = store
+    })
+
+    from.pop()
+    to.push(changes)
+
+    return true
+  }
+
+  /**
+   * Run the mutation under the lock, and record it in the history if the
+   * `history` option is enabled. The nested mutations are recorded as one.
+   */
+  private mutate(callback: () => void): void {
+    this.withLock(() => {
+      if (!this.historyLimit || this.recordDepth > 0) {
+        callback()
+        return
+      }
+
+      const oldStore = deepCloneObject(this.store)
+
+      this.recordDepth++
+      try {
+        callback()
+      } finally {
+        this.recordDepth--
+      }
+
+      const changes = diffObject(oldStore, this.store)
+      if (!changes.length) {
+        return
+      }
+
+      this.undoStack.push(deepCloneObject(changes))
+      if (this.undoStack.length > this.historyLimit) {
+        this.undoStack.shift()
+      }
+      this.redoStack = []
+    })
+  }
+
+  private mergeDefaults<R = T>(...sources: unknown[]): R {
+    return this.defaultsMerge === 'deep'
+      ? deepMergeObject<R>(sources, this.arrayMerge)
+      : mergeObject<R>(...sources)
+  }
+
+  private ensureDirectory(): void {
+    fs.mkdirSync(this.dir, { recursive: true })
+  }
+
+  private load(): T {
+    // The cipher errors are not recovered, such as a wrong key or an
+    // unavailable `safeStorage`, as the config file is not corrupted.
+    const data = this.readData()
+
+    try {
+      const store = this.parse(data)
+      // On the first load, the schema defaults are filled in a copy, since
+      // the explicit defaults take precedence over them when the constructor
+      // merges them into the store.
+      this.validate(
+        this.loadWithDefaults ? store : deepCloneObject(store),
+        true
+      )
+      return store
+    } catch (error: unknown) {
+      if (!this.clearInvalidConfig || data === undefined) {
+        throw error
+      }
+
+      return this.recover(error)
+    }
+  }
+
+  private recover(error: unknown): T {
+    const backupFileName = `${this.fileName}.corrupt-${Date.now()}`
+
+    fs.renameSync(this.fileName, backupFileName)
+
+    this.onCorrupt?.({ error, fileName: this.fileName, backupFileName })
+
+    return createPlainObject()
+  }
+
+  private deserialize(content: Buffer): T {
+    const data = this.cipher
+      ? this.cipher.decrypt(content)
+      : content.toString('utf8')
+    return cloneObject(this.serializer.read(data))
+  }
+
+  private read(): T {
+    return this.parse(this.readData())
+  }
+
+  private parse(data: string | undefined): T {
+    if (data === undefined) {
+      return createPlainObject()
+    }
+
+    return cloneObject(this.serializer.read(data))
+  }
+
+  /**
+   * Read the decrypted content of the config file, or `undefined` if it does
+   * not exist.
+   */
+  private readData(): string | undefined {
+    if (!fs.existsSync(this.fileName)) {
+      this.ensureDirectory()
+      return undefined
+    }
+
+    const content = fs.readFileSync(this.fileName)
+
+    if (!this.cipher) {
+      return content.toString('utf8')
+    }
+
+    try {
+      return this.cipher.decrypt(content)
+    } catch (error: unknown) {
+      // Migrate an unencrypted config file, which is written before the
+      // encryption is enabled.
+      const data = content.toString('utf8')
+      try {
+        this.serializer.read(data)
+      } catch {
+        throw error
+      }
+
+      this.writeFile(this.cipher.encrypt(data))
+      return data
+    }
+  }
+
+  /**
+   * Wait for the pending writes to the config file to complete. It resolves
+   * immediately unless the `async` option is enabled.
+   *
+   * @example
+   * ```
+   * import { app } from 'electron'
+   * import { Conf } from 'electron-conf/main'
+   *
+   * const conf = new Conf({ async: true })
+   *
+   * app.on('before-quit', async (event) => {
+   *   event.preventDefault()
+   *   await conf.flush()
+   *   app.exit()
+   * })
+   * ```
+   */
+  flush(): Promise<void> {
+    return this.lastWrite
+  }
 
+  private serialize(value: T): string | Buffer {
     const data: string = this.serializer.write(value)
 
+    return this.cipher ? this.cipher.encrypt(data) : data
+  }
+
+  private write(value: T): void {
+    if (this.backupOnWrite) {
+      this.autoBackup()
+    }
+
+    this.writeFile(this.serialize(value))
+  }
+
+  private scheduleWrite(): void {
+    // The mutations before the scheduled write starts are coalesced into it.
+    if (this.scheduledWrite) {
+      return
+    }
+
+    this.pendingWrites++
+
+    const write = this.writeQueue
+      .then(() => {
+        this.scheduledWrite = undefined
+
+        if (this.backupOnWrite) {
+          this.autoBackup()
+        }
+
+        return this.writeFileAsync(this.serialize(this._store!))
+      })
+      .finally(() => {
+        this.pendingWrites--
+      })
+
+    this.scheduledWrite = write
+    this.lastWrite = write
+    this.writeQueue = write.catch((error: unknown) => {
+      this.events.dispatchEvent(new ConfErrorEvent(error))
+    })
+  }
+
+  private writeFile(data: string | Buffer): void {
+    this.ensureDirectory()
+
     const wOptions = { mode: 0o666 }
     if (process.env.SNAP) {
       fs.writeFileSync(this.fileName, data, wOptions)
@@ -324,21 +1402,236 @@ export class BaseConf<T extends Record<string, any> = Record<string, unknown>>
     }
   }
 
-  private validate(data: T | unknown): void {
-    if (!this.validator) {
+  private async writeFileAsync(data: string | Buffer): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true })
+
+    const wOptions = { mode: 0o666 }
+    if (process.env.SNAP) {
+      await fs.promises.writeFile(this.fileName, data, wOptions)
+    } else {
+      try {
+        await atomicWriteFile(this.fileName, data, wOptions)
+      } catch (error: unknown) {
+        if ((error as any)?.code === 'EXDEV') {
+          await fs.promises.writeFile(this.fileName, data, wOptions)
+          return
+        }
+
+        throw error
+      }
+    }
+  }
+
+  /**
+   * List the backups of the config file, the newest first.
+   */
+  listBackups(): BackupInfo[] {
+    return getBackups(this.fileName)
+  }
+
+  /**
+   * Create a backup of the config. The backups with a label are not removed
+   * by the rotation of the `backup` option.
+   * @param label The label to name the backup, which only contains word
+   * characters and `-`.
+   */
+  createBackup(label?: string): BackupInfo {
+    return writeBackup(this.fileName, this.serialize(this.store), label)
+  }
+
+  /**
+   * Restore the config from a backup. The backup is validated against the
+   * schema, and the change callbacks are called.
+   * @param id The id of the backup, see `listBackups()`.
+   *
+   * @example
+   * ```
+   * import { Conf } from 'electron-conf/main'
+   *
+   * const conf = new Conf({ backup: true })
+   *
+   * const [latest] = conf.listBackups()
+   * if (latest) {
+   *   conf.restoreBackup(latest.id)
+   * }
+   * ```
+   */
+  restoreBackup(id: string): void {
+    const backup = getBackups(this.fileName).find((b) => b.id === id)
+    if (!backup) {
+      throw new Error(
+        `The backup '${id}' of '${this.fileName}' does not exist.`
+      )
+    }
+
+    const store = this.deserialize(fs.readFileSync(backup.fileName))
+
+    this.withLock(() => {
+      this.store = store
+    })
+  }
+
+  private autoBackup(): void {
+    try {
+      if (!fs.existsSync(this.fileName)) {
+        return
+      }
+
+      // Skip the unchanged config file.
+      const data = fs.readFileSync(this.fileName)
+      const [latest] = getBackups(this.fileName).filter((b) => !b.label)
+      if (latest && data.equals(fs.readFileSync(latest.fileName))) {
+        return
+      }
+
+      writeBackup(this.fileName, data)
+      rotateBackups(this.fileName, this.backupCount)
+    } catch (error: unknown) {
+      this.events.dispatchEvent(new ConfErrorEvent(error))
+    }
+  }
+
+  private watch(): void {
+    this.ensureDirectory()
+
+    // Watch the directory rather than the file, since atomic writes replace
+    // the file and the watcher of the file would be lost.
+    const baseName = path.basename(this.fileName)
+
+    this.watcher = fs.watch(this.dir, { persistent: false }, (_, filename) => {
+      if (filename && filename.toString() !== baseName) {
+        return
+      }
+
+      clearTimeout(this.watchTimer)
+      this.watchTimer = setTimeout(() => this.reload(), WATCH_DEBOUNCE)
+      this.watchTimer.unref?.()
+    })
+
+    this.watcher.on('error', (error) => {
+      this.events.dispatchEvent(new ConfErrorEvent(error))
+    })
+  }
+
+  private reload(): void {
+    // The pending writes would overwrite the file with the store.
+    if (this.pendingWrites > 0) {
+      return
+    }
+
+    let store: T
+    try {
+      store = this.read()
+      this.validate(store, true)
+    } catch (error: unknown) {
+      this.events.dispatchEvent(new ConfErrorEvent(error))
+      return
+    }
+
+    this.update(store)
+  }
+
+  private update(store: T): void {
+    const changes = diffObject(this._store ?? createPlainObject(), store)
+    if (!changes.length) {
+      return
+    }
+
+    this._store = store
+
+    this.dispatchChange(changes, { origin: 'external' })
+  }
+
+  private dispatchChange(changes: ConfChange[], source: ChangeSource): void {
+    this.events.dispatchEvent(new ConfChangeEvent({ changes, ...source }))
+  }
+
+  /**
+   * Run the callback with the origin of the changes made in it. The outermost
+   * origin takes precedence, such as the items reset by a renderer.
+   */
+  protected withOrigin<R>(source: ChangeSource, callback: () => R): R {
+    if (this.changeSource.origin !== 'main') {
+      return callback()
+    }
+
+    this.changeSource = source
+    try {
+      return callback()
+    } finally {
+      this.changeSource = { origin: 'main' }
+    }
+  }
+
+  /**
+   * Run the mutation under the lock of the config file, and re-read the
+   * config file before the mutation, so that the changes written by other
+   * processes are not overwritten.
+   */
+  private withLock<R>(callback: () => R): R {
+    if (!this.lock || this.lockDepth > 0) {
+      return callback()
+    }
+
+    this.ensureDirectory()
+
+    const release = lockSync(this.fileName)
+    this.lockDepth++
+
+    const unlock = (): void => {
+      this.lockDepth--
+      release()
+    }
+
+    let result: R
+    try {
+      this.update(this.load())
+      result = callback()
+    } catch (error) {
+      unlock()
+      throw error
+    }
+
+    // Keep the lock until the asynchronous callback is settled, and keep it
+    // from being taken over as stale meanwhile.
+    if (result instanceof Promise) {
+      const stopRefresh = refreshLock(this.fileName)
+      return result.finally(() => {
+        stopRefresh()
+        unlock()
+      }) as R
+    }
+
+    unlock()
+    return result
+  }
+
+  /**
+   * Validate the data against the schema.
+   * @param data The data to validate.
+   * @param useDefaults Fill in the missing items with the schema defaults, when
+   * the data is loaded from the config file.
+   */
+  private validate(data: T | unknown, useDefaults = false): void {
+    const validator = useDefaults ? this.defaultsValidator : this.validator
+    if (!validator) {
       return
     }
 
-    const valid = this.validator(data)
-    if (valid || !this.validator.errors) {
+    const valid = validator(data)
+    if (valid || !validator.errors) {
       return
     }
 
-    const errorsText = this.validator.errors
+    const errorsText = validator.errors
       .map(({ instancePath, message }) => `${instancePath} ${message}`)
       .join('; ')
 
-    throw new Error('Config schema violation: ' + errorsText)
+    throw new ConfError(
+      'SCHEMA_VIOLATION',
+      'Config schema violation: ' + errorsText,
+      validator.errors
+    )
   }
 
   private containsReservedKey(key: string | Partial<T>): boolean {
@@ -367,17 +1660,9 @@ export class BaseConf<T extends Record<string, any> = Record<string, unknown>>
    * @param callback A callback function that is called on any changes. When a `key` is first set `oldValue` will be `undefined`, and when a key is deleted `newValue` will be `undefined`.
    * @returns A function, that when called, will unsubscribe.
    */
-  onDidChange<Key extends keyof T>(
-    key: Key,
-    callback: OnDidChangeCallback<T[Key]>
-  ): Unsubscribe
-  onDidChange<Key extends keyof T>(
-    key: string,
-    callback: OnDidChangeCallback<T[Key]>
-  ): Unsubscribe
-  onDidChange<Key extends keyof T>(
-    key: string,
-    callback: OnDidChangeCallback<T[Key]>
+  onDidChange<P extends DotPath<T>>(
+    key: P,
+    callback: OnDidChangeCallback<DotPathValue<T, P>>
   ): Unsubscribe {
     if (typeof key !== 'string') {
       throw new TypeError(
@@ -406,20 +1691,215 @@ export class BaseConf<T extends Record<string, any> = Record<string, unknown>>
       )
     }
 
-    return this.handleChange(() => this.store, callback)
+    return this.handleChange(() => this.liveStore, callback)
+  }
+
+  /**
+   * Watches the whole config object, calling `callback` with the changed
+   * paths, their old and new values, and the origin of the changes.
+   * @param callback A callback function that is called on any changes.
+   * @returns A function, that when called, will unsubscribe.
+   *
+   * @example
+   * ```
+   * import { Conf } from 'electron-conf/main'
+   *
+   * const conf = new Conf()
+   *
+   * conf.onDidChangeDetailed(({ changes, origin, webContentsId }) => {
+   *   for (const { path, oldValue, newValue } of changes) {
+   *     console.log(`${path} changed by ${origin}`, oldValue, newValue)
+   *   }
+   * })
+   * ```
+   */
+  onDidChangeDetailed(callback: OnDidChangeDetailedCallback): Unsubscribe {
+    if (typeof callback !== 'function') {
+      throw new TypeError(
+        `Expected 'callback' to be of type 'function', got '${typeof callback}'.`
+      )
+    }
+
+    return this.addEventListener('change', (event: Event): void => {
+      const { info } = event as ConfChangeEvent
+      if (info.changes.length) {
+        callback.call(this, info)
+      }
+    })
+  }
+
+  /**
+   * Calling `callback` on errors that occur outside of a method call, such as
+   * failing to reload the config file when it is changed externally.
+   * @param callback A callback function that is called with the error.
+   * @returns A function, that when called, will unsubscribe.
+   */
+  onError(callback: OnErrorCallback): Unsubscribe {
+    if (typeof callback !== 'function') {
+      throw new TypeError(
+        `Expected 'callback' to be of type 'function', got '${typeof callback}'.`
+      )
+    }
+
+    this.assertNotDisposed()
+
+    return this.addEventListener('error', (event: Event): void => {
+      callback.call(this, (event as ConfErrorEvent).error)
+    })
+  }
+
+  /**
+   * Serve the config over a MessagePort, so that the renderer process `Conf`
+   * with the `createPortTransport()` transport can use it, such as in the
+   * Electron utility processes and the Node.js worker threads. The changes
+   * made over the port have the `port` origin.
+   * @param port The port of the web, Node.js or Electron main process.
+   * @param options The access control of the port.
+   * @returns A function, that when called, will stop serving the port, and
+   * the later calls over the port are rejected. It is also called when the
+   * port is closed.
+   *
+   * @example
+   * ```
+   * import { MessageChannelMain, utilityProcess } from 'electron'
+   *
+   * const { port1, port2 } = new MessageChannelMain()
+   * conf.servePort(port1, { readOnly: true })
+   *
+   * const child = utilityProcess.fork(path.join(__dirname, 'worker.js'))
+   * child.postMessage(null, [port2])
+   * ```
+   */
+  servePort(
+    port: MessagePortLike,
+    options: PortListenerOptions = {}
+  ): () => void {
+    this.assertNotDisposed()
+
+    const host = createHost(this, () => this.liveStore, options)
+    const client = {
+      id: 'port',
+      send: (...args: unknown[]): void => {
+        const message: PortMessage = { type: 'event', args }
+        port.postMessage(message)
+      }
+    }
+
+    let stopped = false
+
+    const onMessage = (message: PortMessage): void => {
+      if (message.type !== 'invoke') {
+        return
+      }
+
+      const { id } = message
+      const [action, key, value, setOptions] = message.args
+
+      // The calls after stopped are rejected until the port is closed, so
+      // that they do not wait forever.
+      if (stopped) {
+        const reply: PortMessage = {
+          type: 'result',
+          id,
+          error: 'The config is no longer served over the port.'
+        }
+        port.postMessage(reply)
+        return
+      }
+
+      let reply: PortMessage
+      try {
+        host.authorize(action, key)
+        reply = {
+          type: 'result',
+          id,
+          result: {
+            value: this.withOrigin({ origin: 'port' }, () =>
+              host.handle(client, action, key, value, setOptions)
+            )
+          }
+        }
+      } catch (error: unknown) {
+        const confError = toConfError(error)
+        reply = confError
+          ? { type: 'result', id, result: { error: confError.toJSON() } }
+          : { type: 'result', id, error: String((error as Error)?.message) }
+      }
+
+      port.postMessage(reply)
+    }
+
+    const stop = (): void => {
+      stopped = true
+      host.dispose()
+      this.portListeners.delete(stop)
+    }
+
+    const unlisten = listenPort(port, onMessage, () => {
+      stop()
+      unlisten()
+    })
+    this.portListeners.add(stop)
+
+    return stop
+  }
+
+  /**
+   * Dispose the instance. It stops serving the ports and watching the config
+   * file, and removes all the change and error callbacks. Any later call on
+   * the instance throws.
+   *
+   * **Note:** The pending writes of the `async` option are still performed,
+   * call `flush()` before to wait for them.
+   */
+  dispose(): void {
+    if (this.disposed) {
+      return
+    }
+
+    this.disposed = true
+
+    for (const stop of this.portListeners) {
+      stop()
+    }
+
+    this.watcher?.close()
+    this.watcher = undefined
+    clearTimeout(this.watchTimer)
+    clearInterval(this.backupTimer)
+
+    for (const unsubscribe of this.listeners) {
+      unsubscribe()
+    }
+  }
+
+  private assertNotDisposed(): void {
+    if (this.disposed) {
+      throw new Error(
+        `The config instance of '${this.fileName}' has been disposed.`
+      )
+    }
+  }
+
+  private addEventListener(
+    type: string,
+    listener: (event: Event) => void
+  ): Unsubscribe {
+    this.events.addEventListener(type, listener)
+
+    const unsubscribe = (): void => {
+      this.events.removeEventListener(type, listener)
+      this.listeners.delete(unsubscribe)
+    }
+
+    this.listeners.add(unsubscribe)
+
+    return unsubscribe
   }
 
-  private handleChange<K extends keyof T>(
-    getter: () => T | undefined,
-    callback: OnDidAnyChangeCallback<T[K]>
-  ): Unsubscribe
-  private handleChange<K extends keyof T>(
-    getter: () => T[K] | undefined,
-    callback: OnDidChangeCallback<T[K]>
-  ): Unsubscribe
-  private handleChange<K extends keyof T>(
-    getter: () => T | T[K] | undefined,
-    callback: OnDidAnyChangeCallback<T | T[K]> | OnDidChangeCallback<T | T[K]>
+  private handleChange<V>(
+    getter: () => V | undefined,
+    callback: OnDidChangeCallback<V>
   ): Unsubscribe {
     let currentValue = getter()
 
@@ -435,10 +1915,6 @@ export class BaseConf<T extends Record<string, any> = Record<string, unknown>>
       callback.call(this, newValue, oldValue)
     }
 
-    this.events.addEventListener('change', onChange)
-
-    return () => {
-      this.events.removeEventListener('change', onChange)
-    }
+    return this.addEventListener('change', onChange)
   }
 }
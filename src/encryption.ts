@@ -0,0 +1,45 @@
+import crypto from 'node:crypto'
+
+import type { Cipher } from './types'
+
+const ALGORITHM = 'aes-256-gcm'
+const IV_LENGTH = 12
+const AUTH_TAG_LENGTH = 16
+const SALT = 'electron-conf'
+
+/**
+ * Create an AES-256-GCM cipher. The encrypted data is laid out as
+ * `iv | auth tag | ciphertext`.
+ * @param key The secret used to derive the encryption key.
+ */
+export function createAesCipher(key: string | Uint8Array): Cipher {
+  const secret = crypto.scryptSync(key, SALT, 32)
+
+  return {
+    encrypt(data): Buffer {
+      const iv = crypto.randomBytes(IV_LENGTH)
+      const cipher = crypto.createCipheriv(ALGORITHM, secret, iv, {
+        authTagLength: AUTH_TAG_LENGTH
+      })
+      const encrypted = Buffer.concat([
+        cipher.update(data, 'utf8'),
+        cipher.final()
+      ])
+
+      return Buffer.concat([iv, cipher.getAuthTag(), encrypted])
+    },
+    decrypt(data): string {
+      const iv = data.subarray(0, IV_LENGTH)
+      const authTag = data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH)
+      const decipher = crypto.createDecipheriv(ALGORITHM, secret, iv, {
+        authTagLength: AUTH_TAG_LENGTH
+      })
+      decipher.setAuthTag(authTag)
+
+      return Buffer.concat([
+        decipher.update(data.subarray(IV_LENGTH + AUTH_TAG_LENGTH)),
+        decipher.final()
+      ]).toString('utf8')
+    }
+  }
+}
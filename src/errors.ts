@@ -0,0 +1,73 @@
+import type { ErrorObject } from 'ajv'
+
+export type ConfErrorCode =
+  | 'ACCESS_DENIED'
+  | 'INVALID_TYPE'
+  | 'RESERVED_KEY'
+  | 'SCHEMA_VIOLATION'
+
+export type SerializedConfError = {
+  code: ConfErrorCode
+  message: string
+  details?: ErrorObject[]
+}
+
+/**
+ * The error thrown by config operations, which is shared by the main and
+ * renderer processes.
+ */
+export class ConfError extends Error {
+  readonly code: ConfErrorCode
+  /**
+   * The Ajv validation errors, if the code is `SCHEMA_VIOLATION`.
+   */
+  readonly details?: ErrorObject[]
+
+  constructor(code: ConfErrorCode, message: string, details?: ErrorObject[]) {
+    super(message)
+    this.name = 'ConfError'
+    this.code = code
+    this.details = details
+  }
+
+  toJSON(): SerializedConfError {
+    return { code: this.code, message: this.message, details: this.details }
+  }
+
+  static fromJSON(error: SerializedConfError): ConfError {
+    return new ConfError(error.code, error.message, error.details)
+  }
+}
+
+/**
+ * The error thrown on setting the reserved `__internal__` items, which is
+ * reported as `RESERVED_KEY` to the renderer process.
+ */
+export class ReservedKeyError extends TypeError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ReservedKeyError'
+  }
+}
+
+/**
+ * Convert the error thrown by a config operation to a `ConfError`, so that it
+ * can be sent to the renderer process. The reserved items are reported as
+ * `RESERVED_KEY`, the other invalid arguments as `INVALID_TYPE`, and
+ * `undefined` is returned for the other errors.
+ */
+export function toConfError(error: unknown): ConfError | undefined {
+  if (error instanceof ConfError) {
+    return error
+  }
+
+  if (error instanceof ReservedKeyError) {
+    return new ConfError('RESERVED_KEY', error.message)
+  }
+
+  if (error instanceof TypeError) {
+    return new ConfError('INVALID_TYPE', error.message)
+  }
+
+  return undefined
+}
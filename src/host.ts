@@ -0,0 +1,339 @@
+import { getProperty, hasProperty, escapePath } from 'dot-prop'
+
+import { isKeyAllowed } from './access'
+import { ConfError } from './errors'
+import { getLeafPaths } from './sources'
+import { INTERNAL_KEY, deepEqual, isPlainObject } from './utils'
+
+import type { BaseConf } from './conf'
+import type { PortListenerOptions, SetOptions, Unsubscribe } from './types'
+
+export type Action =
+  | 'get'
+  | 'set'
+  | 'has'
+  | 'reset'
+  | 'delete'
+  | 'clear'
+  | 'undo'
+  | 'redo'
+  | 'getStore'
+  | 'setStore'
+  | 'keys'
+  | 'entries'
+  | 'size'
+  | 'subscribe'
+  | 'unsubscribe'
+
+const WRITE_ACTIONS = new Set<Action>([
+  'set',
+  'reset',
+  'delete',
+  'clear',
+  'undo',
+  'redo',
+  'setStore'
+])
+
+const WHOLE_CONFIG_ACTIONS = new Set<Action>([
+  'clear',
+  'undo',
+  'redo',
+  'getStore',
+  'setStore',
+  'keys',
+  'entries',
+  'size'
+])
+
+/**
+ * The client of the host, such as a renderer webContents or a MessagePort.
+ */
+export type HostClient = {
+  id: number | string
+  /**
+   * Send a change of the subscription to the client.
+   */
+  send(id: string, newValue?: unknown, oldValue?: unknown): void
+  /**
+   * Call the callback when the client is gone, so that its subscriptions are
+   * removed.
+   */
+  onClose?(callback: () => void): void
+}
+
+export type Host = {
+  /**
+   * Get the store as the clients see it, with the values of the `sources` and
+   * `overrides` options and without the internal items.
+   */
+  snapshot(): Record<string, unknown>
+  /**
+   * Check if the action is allowed by the access control, or throw a
+   * `ConfError` with the `ACCESS_DENIED` code.
+   */
+  authorize(action: Action, key: any): void
+  handle(
+    client: HostClient,
+    action: Action,
+    key: any,
+    value?: any,
+    options?: SetOptions
+  ): unknown
+  /**
+   * Remove the subscriptions of all the clients.
+   */
+  dispose(): void
+}
+
+// The internal items are hidden from the clients.
+function withoutInternal(
+  store: Record<string, unknown>
+): Record<string, unknown> {
+  const result = { ...store }
+  delete result[INTERNAL_KEY]
+  return result
+}
+
+/**
+ * Create the host that handles the calls of the renderer process `Conf`,
+ * which is shared by the ipc and MessagePort transports.
+ * @param liveStore Get the store with the values of all the layers, which is
+ * protected in the config.
+ */
+export function createHost<T extends Record<string, any>>(
+  conf: BaseConf<T>,
+  liveStore: () => T,
+  options: PortListenerOptions = {}
+): Host {
+  // client id -> subscription id -> unsubscribe
+  const subscriptions = new Map<number | string, Map<string, Unsubscribe>>()
+
+  const subscribe = (client: HostClient, id: string, key?: any): void => {
+    let clientSubscriptions = subscriptions.get(client.id)
+    if (!clientSubscriptions) {
+      clientSubscriptions = new Map()
+      subscriptions.set(client.id, clientSubscriptions)
+
+      const clientId = client.id
+      client.onClose?.(() => {
+        subscriptions.get(clientId)?.forEach((unsubscribe) => unsubscribe())
+        subscriptions.delete(clientId)
+      })
+    }
+
+    clientSubscriptions.get(id)?.()
+
+    clientSubscriptions.set(
+      id,
+      key === undefined
+        ? conf.onDidAnyChange((newValue, oldValue) => {
+            client.send(
+              id,
+              newValue && withoutInternal(newValue),
+              oldValue && withoutInternal(oldValue)
+            )
+          })
+        : conf.onDidChange(key, (newValue, oldValue) => {
+            client.send(id, newValue, oldValue)
+          })
+    )
+  }
+
+  const unsubscribe = (client: HostClient, id: string): void => {
+    const clientSubscriptions = subscriptions.get(client.id)
+    clientSubscriptions?.get(id)?.()
+    clientSubscriptions?.delete(id)
+  }
+
+  const { readOnly = false, allow, deny } = options
+
+  const authorize = (action: Action, key: any): void => {
+    if (action === 'unsubscribe') {
+      return
+    }
+
+    if (readOnly && WRITE_ACTIONS.has(action)) {
+      throw new ConfError(
+        'ACCESS_DENIED',
+        `The '${action}' operation is not allowed, the config is read-only.`
+      )
+    }
+
+    let keys: (string | undefined)[]
+    if (WHOLE_CONFIG_ACTIONS.has(action)) {
+      keys = [undefined]
+    } else if (action === 'reset') {
+      if (
+        !Array.isArray(key) ||
+        !key.every((item) => typeof item === 'string')
+      ) {
+        throw new ConfError(
+          'INVALID_TYPE',
+          `Expected the keys of 'reset' to be of type 'string[]'.`
+        )
+      }
+      keys = key
+    } else if (action === 'set' && typeof key === 'object') {
+      keys = Object.keys(key)
+    } else {
+      keys = [key]
+    }
+
+    for (const key of keys) {
+      if (!isKeyAllowed(key, allow, deny)) {
+        throw new ConfError(
+          'ACCESS_DENIED',
+          key === undefined
+            ? `The '${action}' operation is not allowed on the whole config.`
+            : `The '${action}' operation is not allowed on the key '${key}'.`
+        )
+      }
+    }
+  }
+
+  const snapshot = (): Record<string, unknown> => withoutInternal(liveStore())
+
+  // The internal items are kept when a client replaces the store.
+  const userStore = (): Record<string, unknown> => withoutInternal(conf.store)
+
+  // The items supplied by the overrides and the locked sources are not
+  // written to the config file.
+  const isWritable = (key: string): boolean => {
+    const source = conf.getSource(key as any)
+    return (
+      !conf.isOverridden(key as any) &&
+      !(source?.type === 'source' && source.locked)
+    )
+  }
+
+  // Delete the items of the config file which are missing from the store.
+  const deleteMissing = (
+    store: Record<string, unknown>,
+    object: Record<string, unknown>,
+    prefix = ''
+  ): void => {
+    for (const [key, value] of Object.entries(object)) {
+      const path = prefix ? `${prefix}.${escapePath(key)}` : escapePath(key)
+      if (!hasProperty(store, path)) {
+        if (isWritable(path)) {
+          conf.delete(path as any)
+        }
+      } else if (isPlainObject(value)) {
+        deleteMissing(store, value, path)
+      }
+    }
+  }
+
+  // The store is read as the values of all the layers, so only the items
+  // changed from them are written, such as the ones edited by a settings
+  // editor.
+  const setStore = (store: unknown): void => {
+    if (!isPlainObject(store)) {
+      throw new TypeError(
+        `Expected 'store' to be of type 'object', got '${typeof store}'.`
+      )
+    }
+
+    conf.batch(() => {
+      deleteMissing(store, userStore())
+
+      for (const key of getLeafPaths(store)) {
+        const value = getProperty(store, key)
+        if (isWritable(key) && !deepEqual(value, conf.get(key as any))) {
+          conf.set(key as any, value as any)
+        }
+      }
+    })
+  }
+
+  const handle = (
+    client: HostClient,
+    action: Action,
+    key: any,
+    value?: any,
+    options?: SetOptions
+  ): unknown => {
+    if (action === 'get') {
+      return conf.get(key, value)
+    }
+
+    if (action === 'set') {
+      if (typeof key === 'object') {
+        conf.set(key, options)
+      } else {
+        conf.set(key, value, options)
+      }
+      return
+    }
+
+    if (action === 'has') {
+      return conf.has(key)
+    }
+
+    if (action === 'reset') {
+      conf.reset(...key)
+      return
+    }
+
+    if (action === 'delete') {
+      conf.delete(key)
+      return
+    }
+
+    if (action === 'clear') {
+      conf.clear()
+      return
+    }
+
+    if (action === 'getStore') {
+      return snapshot()
+    }
+
+    if (action === 'setStore') {
+      setStore(key)
+      return
+    }
+
+    if (action === 'keys') {
+      return Object.keys(snapshot())
+    }
+
+    if (action === 'entries') {
+      return Object.entries(snapshot())
+    }
+
+    if (action === 'size') {
+      return Object.keys(snapshot()).length
+    }
+
+    if (action === 'undo') {
+      return conf.undo()
+    }
+
+    if (action === 'redo') {
+      return conf.redo()
+    }
+
+    if (action === 'subscribe') {
+      subscribe(client, value as string, key)
+      return
+    }
+
+    if (action === 'unsubscribe') {
+      unsubscribe(client, key)
+      return
+    }
+
+    return
+  }
+
+  const dispose = (): void => {
+    subscriptions.forEach((clientSubscriptions) =>
+      clientSubscriptions.forEach((unsubscribe) => unsubscribe())
+    )
+    subscriptions.clear()
+  }
+
+  return { snapshot, authorize, handle, dispose }
+}
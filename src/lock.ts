@@ -0,0 +1,98 @@
+import fs from 'node:fs'
+
+const LOCK_STALE = 10000
+const LOCK_TIMEOUT = 10000
+const LOCK_RETRY_INTERVAL = 10
+
+const sleepBuffer = new Int32Array(new SharedArrayBuffer(4))
+
+function sleepSync(ms: number): void {
+  Atomics.wait(sleepBuffer, 0, 0, ms)
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error: unknown) {
+    return (error as any)?.code === 'EPERM'
+  }
+}
+
+function isStale(lockFileName: string): boolean {
+  try {
+    const { mtimeMs } = fs.statSync(lockFileName)
+    if (Date.now() - mtimeMs > LOCK_STALE) {
+      return true
+    }
+
+    const pid = parseInt(fs.readFileSync(lockFileName, 'utf8'))
+    return pid > 0 && !isProcessAlive(pid)
+  } catch {
+    // The lock has been released.
+    return false
+  }
+}
+
+/**
+ * Acquire an advisory lock of the file, by creating a lockfile next to it.
+ * A lock held by a process that is gone, or held for too long, is stale and
+ * taken over.
+ * @param fileName The file to lock.
+ * @returns A function, that when called, will release the lock.
+ */
+export function lockSync(fileName: string): () => void {
+  const lockFileName = `${fileName}.lock`
+  const start = Date.now()
+
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockFileName, 'wx')
+      fs.writeSync(fd, String(process.pid))
+      fs.closeSync(fd)
+      break
+    } catch (error: unknown) {
+      if ((error as any)?.code !== 'EEXIST') {
+        throw error
+      }
+    }
+
+    if (isStale(lockFileName)) {
+      fs.rmSync(lockFileName, { force: true })
+      continue
+    }
+
+    if (Date.now() - start > LOCK_TIMEOUT) {
+      throw new Error(`Failed to acquire the lock of '${fileName}'.`)
+    }
+
+    sleepSync(LOCK_RETRY_INTERVAL)
+  }
+
+  return () => {
+    fs.rmSync(lockFileName, { force: true })
+  }
+}
+
+/**
+ * Keep the lock of the file from being stale while it is held across the
+ * asynchronous operations, by refreshing the modification time of the
+ * lockfile.
+ * @param fileName The locked file.
+ * @returns A function, that when called, will stop refreshing the lock.
+ */
+export function refreshLock(fileName: string): () => void {
+  const lockFileName = `${fileName}.lock`
+
+  const timer = setInterval(() => {
+    const now = new Date()
+    try {
+      fs.utimesSync(lockFileName, now, now)
+    } catch {
+      // The lock has been released.
+    }
+  }, LOCK_STALE / 4)
+  timer.unref?.()
+
+  return () => clearInterval(timer)
+}
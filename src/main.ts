@@ -1,20 +1,71 @@
 import { fileURLToPath } from 'node:url'
-import { app, ipcMain, session as _session } from 'electron'
-import { type Session } from 'electron'
+import { app, ipcMain, safeStorage, session as _session } from 'electron'
+import {
+  type IpcMainEvent,
+  type IpcMainInvokeEvent,
+  type Session,
+  type WebContents
+} from 'electron'
 
 import { BaseConf } from './conf'
+import { ConfError, toConfError } from './errors'
+import { type Action, type HostClient, createHost } from './host'
 
-import type { ConfOptions } from './types'
+import type {
+  Cipher,
+  ConfOptions,
+  Options as BaseOptions,
+  RendererListenerOptions,
+  SetOptions
+} from './types'
 
-type Action = 'get' | 'set' | 'has' | 'reset' | 'delete' | 'clear'
+const safeStorageCipher: Cipher = {
+  encrypt(data) {
+    ensureEncryptionAvailable()
+    return safeStorage.encryptString(data)
+  },
+  decrypt(data) {
+    ensureEncryptionAvailable()
+    return safeStorage.decryptString(data)
+  }
+}
+
+function ensureEncryptionAvailable(): void {
+  if (!safeStorage.isEncryptionAvailable()) {
+    throw new Error(
+      'Encryption with safeStorage is not available, make sure the app is ready.'
+    )
+  }
+}
 
 export class Conf<
   T extends Record<string, any> = Record<string, unknown>
 > extends BaseConf<T> {
+  // channel -> dispose the renderer listener
+  private rendererListeners = new Map<string, () => void>()
+
   constructor(options: ConfOptions<T> = {}) {
     options.dir = options.dir || app.getPath('userData')
+    options.projectVersion = options.projectVersion || app.getVersion()
 
-    super(options)
+    const { encryption } = options
+
+    super({
+      ...options,
+      encryption:
+        encryption === true ? safeStorageCipher : encryption || undefined
+    })
+  }
+
+  /**
+   * Create the config instance asynchronously, which waits for the
+   * asynchronous migration hooks to finish before the instance is used.
+   */
+  static create<T extends Record<string, any> = Record<string, unknown>>(
+    // `BaseOptions` keeps the signature compatible with `BaseConf.create()`.
+    options?: ConfOptions<T> | BaseOptions<T>
+  ): Promise<Conf<T>> {
+    return super.create(options as BaseOptions<T>) as Promise<Conf<T>>
   }
 
   /**
@@ -24,49 +75,201 @@ export class Conf<
   /**
    * Register the config ipc handler for use by renderer.
    * @param name The name used to define the renderer process Conf. Default to `config`.
+   * @param options The access control of the renderer.
+   * @returns A function, that when called, will unregister the listener.
+   *
+   * @example
+   * ```
+   * import { Conf } from 'electron-conf/main'
+   *
+   * const conf = new Conf()
+   *
+   * conf.registerRendererListener('config', {
+   *   allow: ['ui.*'],
+   *   allowSender: (event) => !!event.senderFrame?.url.startsWith('app://')
+   * })
+   * ```
    */
-  registerRendererListener(name?: string): void {
+  registerRendererListener(
+    name?: string,
+    options: RendererListenerOptions = {}
+  ): () => void {
     const channel = `__electron_conf_${name || this.name}_handler__`
-    if (!ipcMain.eventNames().some((e) => e === channel)) {
-      ipcMain.handle(
-        channel,
-        (_, action: Action, key: any, value?: unknown) => {
-          if (action === 'get') {
-            return this.get(key, value)
-          }
+    const eventChannel = `__electron_conf_${name || this.name}_event__`
+    const syncChannel = `__electron_conf_${name || this.name}_sync__`
+    if (
+      !this.rendererListeners.has(channel) &&
+      !ipcMain.eventNames().some((e) => e === channel)
+    ) {
+      const { allowSender } = options
+      const host = createHost(this, () => this.liveStore, options)
 
-          if (action === 'set') {
-            this.set(key, value)
-            return
-          }
+      const authorize = (
+        e: IpcMainInvokeEvent,
+        action: Action,
+        key: any
+      ): void => {
+        if (action !== 'unsubscribe' && allowSender && !allowSender(e)) {
+          throw new ConfError(
+            'ACCESS_DENIED',
+            'The sender is not allowed to access the config.'
+          )
+        }
+
+        host.authorize(action, key)
+      }
 
-          if (action === 'has') {
-            return this.has(key)
+      const getClient = (sender: WebContents): HostClient => ({
+        id: sender.id,
+        send: (...args): void => {
+          if (!sender.isDestroyed()) {
+            sender.send(eventChannel, ...args)
+          }
+        },
+        // The subscriptions of the page are gone once it navigates away, such
+        // as a reload, or its renderer process is gone.
+        onClose: (callback): void => {
+          const close = (): void => {
+            sender.removeListener('did-start-navigation', onNavigate)
+            sender.removeListener('render-process-gone', close)
+            sender.removeListener('destroyed', close)
+            callback()
           }
 
-          if (action === 'reset') {
-            this.reset(key)
-            return
+          // The positional arguments are supported by the older Electron.
+          const onNavigate = (
+            _: unknown,
+            _url: string,
+            isInPlace: boolean,
+            isMainFrame: boolean
+          ): void => {
+            if (isMainFrame && !isInPlace) {
+              close()
+            }
           }
 
-          if (action === 'delete') {
-            this.delete(key)
-            return
+          sender.on('did-start-navigation', onNavigate)
+          sender.on('render-process-gone', close)
+          sender.on('destroyed', close)
+        }
+      })
+
+      ipcMain.handle(
+        channel,
+        (
+          e,
+          action: Action,
+          key: any,
+          value?: unknown,
+          options?: SetOptions
+        ) => {
+          try {
+            authorize(e, action, key)
+            return {
+              value: this.withOrigin(
+                { origin: 'renderer', webContentsId: e.sender.id },
+                () =>
+                  host.handle(getClient(e.sender), action, key, value, options)
+              )
+            }
+          } catch (error: unknown) {
+            const confError = toConfError(error)
+            if (confError) {
+              return { error: confError.toJSON() }
+            }
+
+            throw error
           }
+        }
+      )
 
-          if (action === 'clear') {
-            this.clear()
+      // Hydrate the store of the renderer synchronously. The subscription of
+      // the snapshot is registered along with it, so that no change is missed
+      // between them.
+      const onSync = (e: IpcMainEvent, id?: string): void => {
+        try {
+          authorize(e, 'get', undefined)
+          if (typeof id === 'string') {
+            host.handle(getClient(e.sender), 'subscribe', undefined, id)
+          }
+          e.returnValue = { value: host.snapshot() }
+        } catch (error: unknown) {
+          const confError = toConfError(error)
+          if (confError) {
+            e.returnValue = { error: confError.toJSON() }
             return
           }
 
-          return
+          // The renderer is blocked until the return value is set, and the
+          // error thrown in the listener would be uncaught.
+          console.error(error)
+          e.returnValue = {}
         }
-      )
+      }
+
+      ipcMain.on(syncChannel, onSync)
+
+      this.rendererListeners.set(channel, () => {
+        ipcMain.removeHandler(channel)
+        ipcMain.removeListener(syncChannel, onSync)
+        host.dispose()
+      })
     }
+
+    return () => this.unregisterRendererListener(name)
+  }
+
+  /**
+   * Unregister the config ipc handler registered by `registerRendererListener`.
+   * @param name The name used to define the renderer process Conf. Default to `config`.
+   */
+  unregisterRendererListener(name?: string): void {
+    const channel = `__electron_conf_${name || this.name}_handler__`
+
+    this.rendererListeners.get(channel)?.()
+    this.rendererListeners.delete(channel)
+  }
+
+  /**
+   * Dispose the instance. It unregisters the config ipc handlers, stops
+   * watching the config file and removes all the change and error callbacks.
+   * Any later call on the instance throws.
+   */
+  dispose(): void {
+    for (const dispose of this.rendererListeners.values()) {
+      dispose()
+    }
+    this.rendererListeners.clear()
+
+    super.dispose()
   }
 }
 
-export type { ConfOptions, Serializer, JSONSchema, Migration } from './types'
+export { ConfChangeEvent } from './conf'
+export { ConfError } from './errors'
+export type { ConfErrorCode } from './errors'
+
+export type {
+  ConfOptions,
+  RendererListenerOptions,
+  PortListenerOptions,
+  MessagePortLike,
+  Serializer,
+  Cipher,
+  JSONSchema,
+  Migration,
+  MigrationContext,
+  BackupOptions,
+  BackupInfo,
+  HistoryOptions,
+  OverrideOptions,
+  SourceOptions,
+  SourceInfo,
+  ConfChange,
+  SetOptions,
+  ChangeOrigin,
+  ChangeInfo
+} from './types'
 
 type Options = {
   /**
@@ -0,0 +1,62 @@
+import { escapePath } from 'dot-prop'
+
+import type { OverrideOptions } from './types'
+
+function parseValue(value: string): unknown {
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+/**
+ * Get the override values from the environment variables and the CLI
+ * arguments, keyed by the dot-notation paths of the items. The values are
+ * parsed as JSON if possible, otherwise they are used as strings.
+ *
+ * - `<env>__window__width=800` overrides `window.width` with `800`.
+ * - `--<argv>.window.width=800` overrides `window.width` with `800`, and
+ * `--<argv>.fullscreen` overrides `fullscreen` with `true`.
+ *
+ * The CLI arguments take precedence over the environment variables.
+ */
+export function getOverrides(
+  options: OverrideOptions,
+  env: Record<string, string | undefined> = process.env,
+  argv: string[] = process.argv
+): Record<string, unknown> {
+  const overrides: Record<string, unknown> = {}
+
+  if (options.env) {
+    const prefix = `${options.env}__`
+    for (const [name, value] of Object.entries(env)) {
+      if (name.startsWith(prefix) && name.length > prefix.length) {
+        const key = name
+          .slice(prefix.length)
+          .split('__')
+          .map(escapePath)
+          .join('.')
+        overrides[key] = parseValue(value ?? '')
+      }
+    }
+  }
+
+  if (options.argv) {
+    const prefix = `--${options.argv}.`
+    for (const arg of argv) {
+      if (arg.startsWith(prefix) && arg.length > prefix.length) {
+        const index = arg.indexOf('=')
+        if (index === -1) {
+          overrides[arg.slice(prefix.length)] = true
+        } else {
+          overrides[arg.slice(prefix.length, index)] = parseValue(
+            arg.slice(index + 1)
+          )
+        }
+      }
+    }
+  }
+
+  return overrides
+}
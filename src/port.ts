@@ -0,0 +1,129 @@
+import type { ConfTransport, MessagePortLike } from './types'
+
+type ResultMessage = {
+  type: 'result'
+  id: number
+  result?: unknown
+  // the message of the error which is not a `ConfError`
+  error?: string
+}
+
+export type PortMessage =
+  | { type: 'invoke'; id: number; args: any[] }
+  | ResultMessage
+  | { type: 'event'; args: any[] }
+
+const CLOSED = 'The port is closed.'
+
+/**
+ * Listen to the messages of the port. The web and Node.js ports are listened
+ * with `addEventListener`, and the Electron `MessagePortMain` with `on`.
+ * @param onMessage Called with the data of each message.
+ * @param onClose Called when the port is closed, if the port supports the
+ * `close` event.
+ * @returns A function, that when called, will remove the listeners.
+ */
+export function listenPort(
+  port: MessagePortLike,
+  onMessage: (message: PortMessage) => void,
+  onClose?: () => void
+): () => void {
+  const listener = (event: { data: PortMessage }): void => {
+    onMessage(event.data)
+  }
+  const closeListener = (): void => onClose?.()
+
+  if (port.addEventListener) {
+    port.addEventListener('message', listener)
+    port.addEventListener('close', closeListener)
+  } else {
+    port.on?.('message', listener)
+    port.on?.('close', closeListener)
+  }
+
+  port.start?.()
+
+  return () => {
+    if (port.removeEventListener) {
+      port.removeEventListener('message', listener)
+      port.removeEventListener('close', closeListener)
+    } else {
+      port.off?.('message', listener)
+      port.off?.('close', closeListener)
+    }
+  }
+}
+
+/**
+ * Create the transport of the renderer process `Conf` over a MessagePort,
+ * which is served by `servePort()` of the main process config. It can be used
+ * where `ipcRenderer` is not available, such as in Electron utility processes
+ * and Node.js worker threads. A port serves a single config, so the `name`
+ * option of the `Conf` is ignored, and the `sync` option is not supported.
+ *
+ * @example
+ * ```
+ * import { Conf, createPortTransport } from 'electron-conf/renderer'
+ *
+ * process.parentPort.once('message', ({ ports: [port] }) => {
+ *   const conf = new Conf({ transport: createPortTransport(port) })
+ * })
+ * ```
+ */
+export function createPortTransport(port: MessagePortLike): ConfTransport {
+  let nextId = 0
+  // call id -> settle the call
+  const calls = new Map<number, (message: ResultMessage) => void>()
+  const listeners = new Set<(...args: any[]) => void>()
+
+  let closed = false
+
+  listenPort(
+    port,
+    (message) => {
+      if (message.type === 'result') {
+        calls.get(message.id)?.(message)
+        calls.delete(message.id)
+      } else if (message.type === 'event') {
+        listeners.forEach((listener) => listener(...message.args))
+      }
+    },
+    () => {
+      // The pending calls are never replied once the port is closed.
+      closed = true
+      calls.forEach((settle, id) =>
+        settle({ type: 'result', id, error: CLOSED })
+      )
+      calls.clear()
+    }
+  )
+
+  const transport: ConfTransport = {
+    invoke(_, ...args) {
+      if (closed) {
+        return Promise.reject(new Error(CLOSED))
+      }
+
+      const id = nextId++
+
+      return new Promise((resolve, reject) => {
+        calls.set(id, (message) => {
+          if (message.error !== undefined) {
+            reject(new Error(message.error))
+          } else {
+            resolve(message.result)
+          }
+        })
+
+        const message: PortMessage = { type: 'invoke', id, args }
+        port.postMessage(message)
+      })
+    },
+    on(_, listener) {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    }
+  }
+
+  return transport
+}
@@ -1,11 +1,27 @@
-import { contextBridge, ipcRenderer } from 'electron'
+import { contextBridge, ipcRenderer, type IpcRendererEvent } from 'electron'
 
 import type { ConfAPI } from './types'
 
+type IpcListener = (event: IpcRendererEvent, ...args: any[]) => void
+
 const api: ConfAPI = {
   ipcRenderer: {
     invoke(channel, ...args) {
       return ipcRenderer.invoke(channel, ...args)
+    },
+    sendSync(channel, ...args) {
+      return ipcRenderer.sendSync(channel, ...args)
+    },
+    on(channel, listener) {
+      const wrapped: IpcListener = (_, ...args) => listener(...args)
+
+      ipcRenderer.on(channel, wrapped)
+
+      // The disposer keeps the wrapped listener, as contextBridge does not
+      // keep the identity of the functions passed from the renderer.
+      return () => {
+        ipcRenderer.removeListener(channel, wrapped)
+      }
     }
   }
 }
@@ -1,4 +1,18 @@
-import type { ConfAPI } from './types'
+import { getProperty, setProperty, deleteProperty } from 'dot-prop'
+
+import { ConfError } from './errors'
+
+import type {
+  ConfTransport,
+  DotPath,
+  DotPathValue,
+  DotPathValueOrDefault,
+  OnDidChangeCallback,
+  OnDidAnyChangeCallback,
+  OnErrorCallback,
+  SetOptions,
+  Unsubscribe
+} from './types'
 
 type ConfOptions = {
   /**
@@ -8,20 +22,102 @@ type ConfOptions = {
    * @default 'config'
    */
   name?: string
+  /**
+   * Hydrate a snapshot of the store synchronously when instantiated, which
+   * is kept current by the changes pushed from the main process. It enables
+   * `getSync()`, and `set()` updates the snapshot optimistically, which is
+   * rolled back if the main process rejects the change.
+   *
+   * @default false
+   */
+  sync?: boolean
+  /**
+   * The transport to call the main process, such as the MessagePort transport
+   * created by `createPortTransport()`. By default, it is the `ipcRenderer`
+   * exposed by the preload script.
+   */
+  transport?: ConfTransport
 }
 
 export class Conf<T extends Record<string, any> = Record<string, unknown>> {
-  private api: ConfAPI
+  private transport: ConfTransport
   private channel: string
+  private eventChannel: string
+
+  private callbacks = new Map<string, (...args: any[]) => void>()
+  private errorCallbacks = new Set<OnErrorCallback>()
+  private removeEventListener?: () => void
+
+  private cache?: T
 
   constructor(options: ConfOptions = {}) {
-    const { name = 'config' } = options
+    const { name = 'config', sync = false, transport } = options
 
     this.channel = `__electron_conf_${name}_handler__`
+    this.eventChannel = `__electron_conf_${name}_event__`
+
+    this.transport =
+      transport ||
+      (
+        (globalThis || window).__ELECTRON_CONF__ ||
+        (globalThis || window).electron
+      ).ipcRenderer
+
+    if (sync) {
+      this.hydrate(`__electron_conf_${name}_sync__`)
+    }
+  }
+
+  private hydrate(syncChannel: string): void {
+    if (!this.transport.sendSync) {
+      throw new Error("The transport does not support the 'sync' option.")
+    }
 
-    this.api =
-      (globalThis || window).__ELECTRON_CONF__ ||
-      (globalThis || window).electron
+    // The main process subscribes the snapshot to the changes along with
+    // taking it, so that no change is missed between them.
+    const id = this.addCallback((newValue: T) => {
+      this.cache = newValue
+    })
+
+    const { value, error } = this.transport.sendSync(syncChannel, id) || {}
+
+    if (error || !value) {
+      this.removeCallback(id)
+
+      throw error
+        ? ConfError.fromJSON(error)
+        : new Error(`Failed to hydrate the config of '${syncChannel}'.`)
+    }
+
+    this.cache = value
+  }
+
+  /**
+   * Get an item from the snapshot of the store synchronously, which requires
+   * the `sync` option.
+   * @param key The key of the item to get.
+   * @param defaultValue The default value if the item does not exist.
+   *
+   * @example
+   * ```
+   * import { Conf } from 'electron-conf/renderer'
+   *
+   * const conf = new Conf({ sync: true })
+   *
+   * conf.getSync('foo')
+   * ```
+   */
+  getSync<P extends DotPath<T>>(key: P): DotPathValue<T, P>
+  getSync<P extends DotPath<T>, V extends DotPathValueOrDefault<T, P, unknown>>(
+    key: P,
+    defaultValue: V
+  ): DotPathValueOrDefault<T, P, V>
+  getSync(key: string, defaultValue?: unknown): unknown {
+    if (!this.cache) {
+      throw new Error("Please enable the 'sync' option to use `getSync()`.")
+    }
+
+    return getProperty(this.cache, key, defaultValue)
   }
 
   /**
@@ -39,18 +135,13 @@ export class Conf<T extends Record<string, any> = Record<string, unknown>> {
    * await conf.get('a.b')
    * ```
    */
-  get<K extends keyof T>(key: K): Promise<T[K]>
-  get<K extends keyof T>(
-    key: K,
-    defaultValue: Required<T>[K]
-  ): Promise<Required<T>[K]>
-  get<K extends string, V = unknown>(
-    key: Exclude<K, keyof T>,
-    defaultValue?: V
-  ): Promise<V>
-  get(key: string, defaultValue?: unknown): Promise<unknown>
+  get<P extends DotPath<T>>(key: P): Promise<DotPathValue<T, P>>
+  get<P extends DotPath<T>, V extends DotPathValueOrDefault<T, P, unknown>>(
+    key: P,
+    defaultValue: V
+  ): Promise<DotPathValueOrDefault<T, P, V>>
   get(key: string, defaultValue?: unknown): Promise<unknown> {
-    return this.api.ipcRenderer.invoke(this.channel, 'get', key, defaultValue)
+    return this.invoke('get', key, defaultValue)
   }
 
   /**
@@ -58,6 +149,8 @@ export class Conf<T extends Record<string, any> = Record<string, unknown>> {
    *
    * @param key The key of the item or a hashmap of items to set at once.
    * @param value Must be JSON serializable. Trying to set the type `undefined`, `function`, or `symbol` will result in a `TypeError`.
+   * @param options Set the `ttl` in milliseconds, after which the items read
+   * as missing.
    *
    * @example
    * ```
@@ -68,46 +161,79 @@ export class Conf<T extends Record<string, any> = Record<string, unknown>> {
    * await conf.set('foo', 1)
    * await conf.set('a.b', 2)
    * await conf.set({ foo: 1, a: { b: 2 }})
+   * await conf.set('flags', flags, { ttl: 60 * 60 * 1000 })
    * ```
    */
-  set<K extends keyof T>(key: K, value?: T[K]): Promise<void>
-  set(key: string, value: unknown): Promise<void>
-  set(object: Partial<T>): Promise<void>
-  set<K extends keyof T>(
-    key: Partial<T> | K | string,
-    value?: T[K] | unknown
+  set<P extends DotPath<T>>(
+    key: P,
+    value: Exclude<DotPathValue<T, P>, undefined>,
+    options?: SetOptions
   ): Promise<void>
-  set<K extends keyof T>(
-    key: Partial<T> | K | string,
-    value?: T[K] | unknown
+  set(object: Partial<T>, options?: SetOptions): Promise<void>
+  set(
+    key: Partial<T> | string,
+    value?: unknown,
+    options?: SetOptions
   ): Promise<void> {
-    return this.api.ipcRenderer.invoke(this.channel, 'set', key, value)
+    const result =
+      typeof key === 'object'
+        ? this.invoke('set', key, undefined, value)
+        : this.invoke('set', key, value, options)
+
+    if (!this.cache) {
+      return result
+    }
+
+    const cache = this.cache
+    const entries: [string, unknown][] =
+      typeof key === 'object' ? Object.entries(key) : [[key, value]]
+    const oldEntries = entries.map(([key]): [string, unknown] => [
+      key,
+      getProperty(cache, key)
+    ])
+
+    for (const [key, value] of entries) {
+      setProperty(cache, key, value)
+    }
+
+    return result.catch((error: unknown) => {
+      // Roll back unless the snapshot has been replaced by the main process.
+      if (this.cache === cache) {
+        for (const [key, value] of oldEntries) {
+          if (value === undefined) {
+            deleteProperty(cache, key)
+          } else {
+            setProperty(cache, key, value)
+          }
+        }
+      }
+
+      throw error
+    })
   }
 
   /**
    * Check if an item exists.
    * @param key The key of the item to check.
    */
-  has<Key extends keyof T>(key: Key | string): Promise<boolean> {
-    return this.api.ipcRenderer.invoke(this.channel, 'has', key)
+  has(key: DotPath<T>): Promise<boolean> {
+    return this.invoke('has', key)
   }
 
   /**
    * Reset items to their default values, as defined by the `defaults` or `schema` option.
    * @param keys The keys of the items to reset.
    */
-  reset<Key extends keyof T>(...keys: Key[]): Promise<void> {
-    return this.api.ipcRenderer.invoke(this.channel, 'reset', keys)
+  reset(...keys: DotPath<T>[]): Promise<void> {
+    return this.invoke('reset', keys)
   }
 
   /**
    * Delete an item.
    * @param key The key of the item to delete.
    */
-  delete<Key extends keyof T>(key: Key): Promise<void>
-  delete(key: string): Promise<void>
-  delete(key: string): Promise<void> {
-    return this.api.ipcRenderer.invoke(this.channel, 'delete', key)
+  delete(key: DotPath<T>): Promise<void> {
+    return this.invoke('delete', key)
   }
 
   /**
@@ -115,6 +241,202 @@ export class Conf<T extends Record<string, any> = Record<string, unknown>> {
    * defined by the `defaults` or `schema` option.
    */
   clear(): Promise<void> {
-    return this.api.ipcRenderer.invoke(this.channel, 'clear')
+    return this.invoke('clear')
+  }
+
+  /**
+   * Get the whole config object. The internal items are not included.
+   */
+  getStore(): Promise<T> {
+    return this.invoke('getStore')
+  }
+
+  /**
+   * Replace the whole config object, which is validated against the schema
+   * in the main process. The internal items are kept. Only the items changed
+   * from the values of the other layers are written, and the items of the
+   * overrides and the locked sources are skipped, so the store read by
+   * `getStore()` can be edited and set back.
+   * @param store The new config object.
+   */
+  setStore(store: T): Promise<void> {
+    return this.invoke('setStore', store)
+  }
+
+  /**
+   * Get the keys of the items.
+   */
+  keys(): Promise<(keyof T & string)[]> {
+    return this.invoke('keys')
+  }
+
+  /**
+   * Get the key-value pairs of the items.
+   */
+  entries(): Promise<[keyof T & string, T[keyof T]][]> {
+    return this.invoke('entries')
+  }
+
+  /**
+   * Get the number of the items.
+   */
+  size(): Promise<number> {
+    return this.invoke('size')
+  }
+
+  /**
+   * Revert the last mutation recorded by the `history` option of the main
+   * process config.
+   * @returns Whether a mutation is reverted.
+   */
+  undo(): Promise<boolean> {
+    return this.invoke('undo')
+  }
+
+  /**
+   * Reapply the last mutation reverted by `undo()`.
+   * @returns Whether a mutation is reapplied.
+   */
+  redo(): Promise<boolean> {
+    return this.invoke('redo')
+  }
+
+  /**
+   * Watches the given `key`, calling `callback` on any changes.
+   * @param key The key to watch.
+   * @param callback A callback function that is called on any changes. When a `key` is first set `oldValue` will be `undefined`, and when a key is deleted `newValue` will be `undefined`.
+   * @returns A function, that when called, will unsubscribe.
+   */
+  onDidChange<P extends DotPath<T>>(
+    key: P,
+    callback: OnDidChangeCallback<DotPathValue<T, P>>
+  ): Unsubscribe {
+    if (typeof key !== 'string') {
+      throw new TypeError(
+        `Expected 'key' to be of type 'string', got '${typeof key}'.`
+      )
+    }
+
+    if (typeof callback !== 'function') {
+      throw new TypeError(
+        `Expected 'callback' to be of type 'function', got '${typeof callback}'.`
+      )
+    }
+
+    return this.subscribe(key, callback)
+  }
+
+  /**
+   * Watches the whole config object, calling `callback` on any changes.
+   * @param callback A callback function that is called on any changes. When a `key` is first set `oldValue` will be `undefined`, and when a key is deleted `newValue` will be `undefined`.
+   * @returns A function, that when called, will unsubscribe.
+   */
+  onDidAnyChange(callback: OnDidAnyChangeCallback<T>): Unsubscribe {
+    if (typeof callback !== 'function') {
+      throw new TypeError(
+        `Expected 'callback' to be of type 'function', got '${typeof callback}'.`
+      )
+    }
+
+    return this.subscribe(undefined, callback)
+  }
+
+  /**
+   * Calling `callback` on errors that occur outside of a method call, such as
+   * a subscription of `onDidChange()` or `onDidAnyChange()` rejected by the
+   * main process.
+   * @param callback A callback function that is called with the error.
+   * @returns A function, that when called, will unsubscribe.
+   */
+  onError(callback: OnErrorCallback): Unsubscribe {
+    if (typeof callback !== 'function') {
+      throw new TypeError(
+        `Expected 'callback' to be of type 'function', got '${typeof callback}'.`
+      )
+    }
+
+    this.errorCallbacks.add(callback)
+
+    return () => {
+      this.errorCallbacks.delete(callback)
+    }
+  }
+
+  private async invoke(action: string, ...args: unknown[]): Promise<any> {
+    const { value, error } = await this.transport.invoke(
+      this.channel,
+      action,
+      ...args
+    )
+
+    if (error) {
+      throw ConfError.fromJSON(error)
+    }
+
+    return value
+  }
+
+  private subscribe(
+    key: string | undefined,
+    callback: (...args: any[]) => void
+  ): Unsubscribe {
+    const id = this.addCallback(callback)
+
+    this.invoke('subscribe', key, id).catch((error: unknown) => {
+      this.removeCallback(id)
+
+      if (!this.errorCallbacks.size) {
+        console.warn(error)
+        return
+      }
+      this.errorCallbacks.forEach((callback) => callback.call(this, error))
+    })
+
+    return () => {
+      if (!this.callbacks.has(id)) {
+        return
+      }
+
+      this.removeCallback(id)
+
+      // It fails once the listener of the main process is unregistered, when
+      // the subscription is gone anyway.
+      this.invoke('unsubscribe', id).catch(() => {})
+    }
+  }
+
+  /**
+   * Register the callback of a subscription, and listen to the changes pushed
+   * from the main process.
+   * @returns The id of the subscription.
+   */
+  private addCallback(callback: (...args: any[]) => void): string {
+    if (!this.removeEventListener) {
+      this.removeEventListener = this.transport.on(
+        this.eventChannel,
+        (id: string, newValue?: unknown, oldValue?: unknown) => {
+          this.callbacks.get(id)?.call(this, newValue, oldValue)
+        }
+      )
+    }
+
+    const id = Math.random().toString(36).slice(2)
+    this.callbacks.set(id, callback)
+
+    return id
+  }
+
+  private removeCallback(id: string): void {
+    this.callbacks.delete(id)
+
+    if (this.callbacks.size === 0) {
+      this.removeEventListener?.()
+      this.removeEventListener = undefined
+    }
   }
 }
+
+export { ConfError } from './errors'
+export type { ConfErrorCode } from './errors'
+export { createPortTransport } from './port'
+export type { ConfTransport, MessagePortLike } from './types'
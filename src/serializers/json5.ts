@@ -0,0 +1,23 @@
+import JSON5 from 'json5'
+
+import type { Serializer } from '../types'
+
+/**
+ * Create a JSON5 serializer. The key order is kept, but the comments are not,
+ * when the config file is rewritten.
+ *
+ * @example
+ * ```
+ * import { Conf } from 'electron-conf/main'
+ * import { createJson5Serializer } from 'electron-conf/serializers/json5'
+ *
+ * const conf = new Conf({ serializer: createJson5Serializer() })
+ * ```
+ */
+export function createJson5Serializer<T = any>(): Serializer<T> {
+  return {
+    ext: '.json5',
+    read: (raw): T => JSON5.parse(raw),
+    write: (value): string => JSON5.stringify(value, undefined, '\t')
+  }
+}
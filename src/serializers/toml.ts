@@ -0,0 +1,25 @@
+import { parse, stringify } from 'smol-toml'
+
+import type { Serializer } from '../types'
+
+/**
+ * Create a TOML serializer. The key order is kept, but the comments are not,
+ * when the config file is rewritten.
+ *
+ * **Note:** TOML has no `null` value, so `null` values cannot be written.
+ *
+ * @example
+ * ```
+ * import { Conf } from 'electron-conf/main'
+ * import { createTomlSerializer } from 'electron-conf/serializers/toml'
+ *
+ * const conf = new Conf({ serializer: createTomlSerializer() })
+ * ```
+ */
+export function createTomlSerializer<T = any>(): Serializer<T> {
+  return {
+    ext: '.toml',
+    read: (raw): T => parse(raw) as T,
+    write: (value): string => stringify(value)
+  }
+}
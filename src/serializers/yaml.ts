@@ -0,0 +1,76 @@
+import { Document, isMap, isNode, isScalar, parseDocument } from 'yaml'
+
+import { deepEqual, isPlainObject } from '../utils'
+
+import type { Serializer } from '../types'
+
+/**
+ * Apply the value onto the existing node, so that the comments and the key
+ * order of the unchanged parts are kept.
+ */
+function patch(doc: Document, node: unknown, value: unknown): unknown {
+  if (isMap(node) && isPlainObject(value)) {
+    for (const { key } of [...node.items]) {
+      const k = isScalar(key) ? key.value : key
+      if (!Object.prototype.hasOwnProperty.call(value, String(k))) {
+        node.delete(key)
+      }
+    }
+
+    for (const [k, v] of Object.entries(value)) {
+      node.set(k, patch(doc, node.get(k, true), v))
+    }
+
+    return node
+  }
+
+  if (isScalar(node) && (value === null || typeof value !== 'object')) {
+    node.value = value
+    return node
+  }
+
+  if (isNode(node) && deepEqual(node.toJSON(), value)) {
+    return node
+  }
+
+  return doc.createNode(value)
+}
+
+/**
+ * Create a YAML serializer. The comments and the key order of a hand-edited
+ * config file are kept when it is rewritten.
+ *
+ * @example
+ * ```
+ * import { Conf } from 'electron-conf/main'
+ * import { createYamlSerializer } from 'electron-conf/serializers/yaml'
+ *
+ * const conf = new Conf({ serializer: createYamlSerializer() })
+ * ```
+ */
+export function createYamlSerializer<T = any>(): Serializer<T> {
+  // the last read document, which holds the comments.
+  let doc: Document | undefined
+
+  return {
+    ext: '.yaml',
+    read(raw): T {
+      const parsed = parseDocument(raw)
+      if (parsed.errors.length) {
+        throw parsed.errors[0]
+      }
+
+      doc = parsed
+      return doc.toJS() || {}
+    },
+    write(value): string {
+      if (!doc) {
+        doc = new Document()
+      }
+
+      doc.contents = patch(doc, doc.contents, value) as Document['contents']
+
+      return doc.toString()
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import fs from 'node:fs'
+import { getProperty, hasProperty, escapePath } from 'dot-prop'
+
+import { cloneObject, isPlainObject } from './utils'
+
+import type { Serializer, SourceOptions } from './types'
+
+export type Source = {
+  fileName: string
+  data: Record<string, unknown>
+  // the dot-notation paths of the locked items
+  locked: string[]
+}
+
+/**
+ * Get the dot-notation paths of the leaf values in the object, the arrays are
+ * leaf values.
+ */
+export function getLeafPaths(object: Record<string, unknown>): string[] {
+  return Object.entries(object).flatMap(([key, value]) => {
+    const path = escapePath(key)
+    return isPlainObject(value) && Object.keys(value).length
+      ? getLeafPaths(value).map((p) => `${path}.${p}`)
+      : [path]
+  })
+}
+
+/**
+ * Read the read-only source files. The missing files are skipped.
+ * @param sources The source files, from the lowest to the highest priority.
+ * @param serializer The serializer of the config file, which is used unless
+ * the source has its own.
+ */
+export function readSources(
+  sources: SourceOptions[],
+  serializer: Serializer<any>
+): Source[] {
+  const result: Source[] = []
+
+  for (const source of sources) {
+    if (!fs.existsSync(source.fileName)) {
+      continue
+    }
+
+    const content = fs.readFileSync(source.fileName, 'utf8')
+    const data: Record<string, unknown> = cloneObject(
+      (source.serializer || serializer).read(content)
+    )
+
+    const { locked = false } = source
+    result.push({
+      fileName: source.fileName,
+      data,
+      locked:
+        locked === true
+          ? getLeafPaths(data)
+          : (locked || []).filter((key) => hasProperty(data, key))
+    })
+  }
+
+  return result
+}
+
+/**
+ * Whether the item overlaps the path, that is, the item is the path, nested
+ * under it, or contains it.
+ */
+export function overlaps(key: string, path: string): boolean {
+  return (
+    key === path || key.startsWith(`${path}.`) || path.startsWith(`${key}.`)
+  )
+}
+
+/**
+ * Find the source with the highest priority that locks the item.
+ */
+export function findLockedSource(
+  sources: Source[],
+  key: string
+): Source | undefined {
+  for (let i = sources.length - 1; i >= 0; i--) {
+    if (sources[i].locked.some((path) => overlaps(key, path))) {
+      return sources[i]
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Find the source with the highest priority that supplies the item.
+ */
+export function findSource(sources: Source[], key: string): Source | undefined {
+  for (let i = sources.length - 1; i >= 0; i--) {
+    if (getProperty(sources[i].data, key) !== undefined) {
+      return sources[i]
+    }
+  }
+
+  return undefined
+}
@@ -1,4 +1,5 @@
 import type { JSONSchemaType, ValidateFunction } from 'ajv'
+import type { IpcMainInvokeEvent } from 'electron'
 
 import type { BaseConf } from './conf'
 
@@ -17,22 +18,86 @@ export interface Serializer<T> {
    * @param value The config object.
    */
   write: (value: T) => string
+  /**
+   * The configuration file extension used if the `ext` option is not set.
+   */
+  ext?: string
+}
+
+export interface Cipher {
+  /**
+   * Encrypt the serialized config data when writing the config file.
+   * @param data UTF-8 encoded string.
+   */
+  encrypt: (data: string) => Buffer
+  /**
+   * Decrypt the config file content into the serialized config data when
+   * reading the config file. Throw if the content cannot be decrypted.
+   * @param data The config file content.
+   */
+  decrypt: (data: Buffer) => string
 }
 
 export type Migration<T extends Record<string, any>> = {
   /**
    * Migration version. The initial version must be greater than `0`. A new
    * version is defined on each migration and is incremented on the previous version.
+   *
+   * It can also be a semver version or range of the app, such as `'2.1.0'` or
+   * `'>=2.1.0'`, which is compared with the `projectVersion` option. The
+   * migration is performed when the app is upgraded to a version that
+   * satisfies it. The config migrated by the numeric versions is treated as
+   * version `0.0.0`, so all the semver migrations up to the app version are
+   * performed after switching to them.
    */
-  version: number
+  version: number | string
   /**
    * Migration hook. You can perform operations to update your configuration.
+   * The asynchronous hooks require the instance to be created by
+   * `await Conf.create()`.
+   * @param instance config instance.
+   * @param currentVersion current version.
+   */
+  hook: (
+    instance: BaseConf<T>,
+    currentVersion: number | string
+  ) => void | Promise<void>
+  /**
+   * Rollback hook for semver migrations. It is performed when the app is
+   * downgraded to a version that no longer satisfies the migration version.
    * @param instance config instance.
    * @param currentVersion current version.
    */
-  hook: (instance: BaseConf<T>, currentVersion: number) => void
+  down?: (
+    instance: BaseConf<T>,
+    currentVersion: number | string
+  ) => void | Promise<void>
 }
 
+export type MigrationContext = {
+  /**
+   * The version of the migration being performed.
+   */
+  version: number | string
+  /**
+   * The version before migrating.
+   */
+  fromVersion: number | string
+  /**
+   * The version after all migrations are performed.
+   */
+  toVersion: number | string
+  /**
+   * `up` for the migration hook, `down` for the rollback hook.
+   */
+  direction: 'up' | 'down'
+}
+
+export type MigrationCallback<T extends Record<string, any>> = (
+  instance: BaseConf<T>,
+  context: MigrationContext
+) => void
+
 export type Options<T extends Record<string, any>> = {
   /**
    * The directory for storing your app's configuration file.
@@ -49,13 +114,29 @@ export type Options<T extends Record<string, any>> = {
   /**
    * Configuration file extension.
    *
-   * @default '.json'
+   * @default serializer.ext || '.json'
    */
   ext?: string
   /**
-   * Default config used if there are no existing config.
+   * Default config used if there are no existing config. It takes precedence
+   * over the `default` values of the `schema`.
    */
   defaults?: Readonly<T>
+  /**
+   * How the default config is merged with the existing config. `shallow` only
+   * fills in the missing top-level items, `deep` also fills in the missing
+   * items of the nested objects.
+   *
+   * @default 'shallow'
+   */
+  defaultsMerge?: 'shallow' | 'deep'
+  /**
+   * How the arrays are merged when `defaultsMerge` is `deep`. `replace` keeps
+   * the existing array, `union` appends the default items not in it.
+   *
+   * @default 'replace'
+   */
+  arrayMerge?: 'replace' | 'union'
   /**
    * Provides functionality to serialize object types to UTF-8 strings and to
    * deserialize UTF-8 strings into object types.
@@ -73,6 +154,10 @@ export type Options<T extends Record<string, any>> = {
    * Under the hood, we use the [ajv](https://ajv.js.org/) JSON Schema
    * validator to validate config data.
    *
+   * The `default` values of the properties are used as default config along
+   * with the `defaults` option, and fill in the missing items when the config
+   * file is loaded.
+   *
    * @example
    * ```
    * import { Conf } from 'electron-conf/main'
@@ -125,8 +210,375 @@ export type Options<T extends Record<string, any>> = {
    * ```
    */
   migrations?: Migration<T>[]
+  /**
+   * The version of the app, which the semver migrations are compared with.
+   *
+   * @default app.getVersion()
+   */
+  projectVersion?: string
+  /**
+   * Called before each migration is performed, such as for logging.
+   */
+  beforeEachMigration?: MigrationCallback<T>
+  /**
+   * Called after each migration is performed.
+   */
+  afterEachMigration?: MigrationCallback<T>
+  /**
+   * Don't perform the migrations when instantiated, `planMigrations()` lists
+   * the migrations that would be performed instead.
+   *
+   * @default false
+   */
+  dryRunMigrations?: boolean
+  /**
+   * Watch the config file for changes made outside of this instance, such as
+   * manual edits or writes from another process, and reload the store when it
+   * changes. `onDidChange` and `onDidAnyChange` callbacks are called for the
+   * external changes. If the changed file cannot be read or fails validation,
+   * the store is kept as is and `onError` callbacks are called instead.
+   *
+   * @default false
+   */
+  watch?: boolean
+  /**
+   * Write the config file asynchronously, so that the mutations do not block
+   * the main thread. The mutations in the same tick are coalesced into one
+   * write, and the writes are performed in order. Reads always come from
+   * memory. Use `flush()` to wait for the pending writes, such as before
+   * the app quits.
+   *
+   * Write errors are reported to the `onError` callbacks.
+   *
+   * @default false
+   */
+  async?: boolean
+  /**
+   * Lock the config file while mutating it, so that multiple instances, such
+   * as multiple app instances or the main process and a utility process, can
+   * share the same config file. Each mutation re-reads the config file under
+   * the lock before writing, so that the changes written by other instances
+   * are not overwritten.
+   *
+   * The lock is advisory, by creating a `<fileName>.lock` file. A lock held by
+   * a process that is gone, or held for more than 10 seconds, is taken over.
+   *
+   * **Note:** Reads come from memory, use `batch()` to read and write under
+   * the same lock. It cannot be used with the `async` option.
+   *
+   * @default false
+   */
+  lock?: boolean
+  /**
+   * Encrypt the config file. It can be a key used to encrypt with AES-256-GCM,
+   * or a custom cipher.
+   *
+   * An existing unencrypted config file is encrypted the first time it is read.
+   *
+   * **Note:** Encryption helps keep the data away from casual inspection, it
+   * is not a replacement for the keychain of the operating system.
+   *
+   * @example
+   * ```
+   * import { Conf } from 'electron-conf/main'
+   *
+   * const conf = new Conf({ encryption: 'my-secret-key' })
+   * ```
+   */
+  encryption?: string | Uint8Array | Cipher
+  /**
+   * Recover from a config file which cannot be read, such as a truncated or
+   * malformed file, or which fails validation against the `schema`, instead
+   * of throwing. The invalid file is backed up next to the original as
+   * `<fileName>.corrupt-<timestamp>`, and the store starts from `defaults`.
+   *
+   * @default false
+   */
+  clearInvalidConfig?: boolean
+  /**
+   * Called when an invalid config file is recovered. Providing it also
+   * enables `clearInvalidConfig`.
+   *
+   * @example
+   * ```
+   * import { Conf } from 'electron-conf/main'
+   *
+   * const conf = new Conf({
+   *   onCorrupt: ({ error, backupFileName }) => {
+   *     console.warn(`Invalid config file is backed up to ${backupFileName}`, error)
+   *   }
+   * })
+   * ```
+   */
+  onCorrupt?: OnCorruptCallback
+  /**
+   * Keep the snapshots of the config file in the `backups` directory next to
+   * it. By default, the config file is backed up before each write, or on a
+   * schedule with the `interval` option. Only the last `count` automatic
+   * backups are kept, the backups created by `createBackup()` with a label
+   * are never removed.
+   *
+   * @example
+   * ```
+   * import { Conf } from 'electron-conf/main'
+   *
+   * const conf = new Conf({ backup: { count: 5, interval: 60 * 60 * 1000 } })
+   * ```
+   *
+   * @default false
+   */
+  backup?: boolean | BackupOptions
+  /**
+   * Record the mutations of `set`, `delete`, `reset`, `clear` and `batch` in
+   * memory, which can be reverted by `undo()` and reapplied by `redo()`.
+   *
+   * @default false
+   */
+  history?: boolean | HistoryOptions
+  /**
+   * Override the items with the environment variables and the CLI arguments,
+   * such as for QA and kiosk deployments. The overrides are applied on top of
+   * the config file when reading with `get()` and `has()`, and are never
+   * written to the config file.
+   *
+   * The values are parsed as JSON if possible, otherwise they are used as
+   * strings.
+   *
+   * @example
+   * ```
+   * import { Conf } from 'electron-conf/main'
+   *
+   * // MYAPP_CONF__window__width=800 or --conf.window.width=800
+   * const conf = new Conf({ overrides: { env: 'MYAPP_CONF', argv: 'conf' } })
+   *
+   * conf.get('window.width') // => 800
+   * conf.isOverridden('window.width') // => true
+   * ```
+   */
+  overrides?: OverrideOptions
+  /**
+   * The read-only source files, such as the settings managed by IT, from the
+   * lowest to the highest priority. The values are resolved through the
+   * layers, `sources` < the config file, and the layers are merged deeply.
+   * The default values are kept in the config file, except for the items
+   * supplied by the sources. The missing source files are skipped.
+   *
+   * The locked items of the sources take precedence over the config file,
+   * and setting them throws.
+   *
+   * @example
+   * ```
+   * import { Conf } from 'electron-conf/main'
+   *
+   * const conf = new Conf({
+   *   sources: [
+   *     { fileName: '/etc/my-app/config.json' },
+   *     { fileName: '/etc/my-app/policy.json', locked: true }
+   *   ]
+   * })
+   *
+   * conf.getSource('update.channel')
+   * // => { type: 'source', fileName: '/etc/my-app/policy.json', locked: true }
+   * ```
+   */
+  sources?: SourceOptions[]
+}
+
+export type SourceOptions = {
+  /**
+   * The path of the source file.
+   */
+  fileName: string
+  /**
+   * Lock the items so that they cannot be overridden by the config file,
+   * `true` locks all the items of the source file.
+   *
+   * @default false
+   */
+  locked?: boolean | string[]
+  /**
+   * The serializer of the source file.
+   *
+   * @default the `serializer` option
+   */
+  serializer?: Serializer<any>
 }
 
+export type SourceInfo =
+  | {
+      /**
+       * The value comes from the `overrides` option.
+       */
+      type: 'override'
+    }
+  | {
+      /**
+       * The value comes from a source file.
+       */
+      type: 'source'
+      fileName: string
+      locked: boolean
+    }
+  | {
+      /**
+       * The value comes from the config file.
+       */
+      type: 'user'
+    }
+  | {
+      /**
+       * The value of the config file is equal to the default value.
+       */
+      type: 'default'
+    }
+
+export type OverrideOptions = {
+  /**
+   * The prefix of the environment variables, the path segments are separated
+   * by `__`, such as `<env>__window__width`.
+   */
+  env?: string
+  /**
+   * The prefix of the CLI arguments, such as `--<argv>.window.width=800`. An
+   * argument without value overrides the item with `true`.
+   */
+  argv?: string
+}
+
+export type HistoryOptions = {
+  /**
+   * The maximum number of the mutations to keep.
+   *
+   * @default 100
+   */
+  limit?: number
+}
+
+export type SetOptions = {
+  /**
+   * The time to live of the items in milliseconds, after which they read as
+   * missing, until they are set again or removed by `prune()`.
+   */
+  ttl?: number
+}
+
+export type ChangeOrigin =
+  | 'main'
+  | 'renderer'
+  | 'port'
+  | 'migration'
+  | 'external'
+  | 'reset'
+
+export type ChangeInfo = {
+  /**
+   * The changed values.
+   */
+  changes: ConfChange[]
+  /**
+   * Where the changes come from: `main` for the calls in the main process,
+   * `renderer` for the calls of a renderer, `port` for the calls over a
+   * MessagePort served by `servePort()`, `migration` for the migrations,
+   * `external` for the edits of the config file outside of this instance, and
+   * `reset` for the items reset to their default values.
+   */
+  origin: ChangeOrigin
+  /**
+   * The id of the renderer webContents, if the origin is `renderer`.
+   */
+  webContentsId?: number
+}
+
+export type OnDidChangeDetailedCallback = (info: ChangeInfo) => void
+
+export type ConfChange = {
+  /**
+   * The dot-notation path of the changed value.
+   */
+  path: string
+  /**
+   * The value before the change, `undefined` if it is added.
+   */
+  oldValue: unknown
+  /**
+   * The value after the change, `undefined` if it is deleted.
+   */
+  newValue: unknown
+}
+
+export type BackupOptions = {
+  /**
+   * The number of the automatic backups to keep.
+   *
+   * @default 10
+   */
+  count?: number
+  /**
+   * Back up the config file on the interval in milliseconds, rather than
+   * before each write.
+   */
+  interval?: number
+}
+
+export type BackupInfo = {
+  /**
+   * The id used to restore the backup.
+   */
+  id: string
+  /**
+   * The label of the backup created by `createBackup()`.
+   */
+  label?: string
+  /**
+   * The time the backup is created.
+   */
+  date: Date
+  /**
+   * The backup file path.
+   */
+  fileName: string
+}
+
+type Primitive = string | number | bigint | boolean | symbol | null | undefined
+
+// limit the depth of the nested paths to avoid infinite type instantiation.
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9]
+
+/**
+ * The dot-notation paths of the config object, such as `'a' | 'a.b'`.
+ */
+export type DotPath<T, Depth extends number = 10> = [Depth] extends [never]
+  ? never
+  : T extends Primitive | readonly unknown[] | ((...args: any[]) => unknown)
+    ? never
+    : {
+        [K in keyof T & string]-?:
+          | K
+          | `${K}.${DotPath<NonNullable<T[K]>, PrevDepth[Depth]>}`
+      }[keyof T & string]
+
+/**
+ * The value type at the dot-notation path of the config object.
+ */
+export type DotPathValue<T, P extends string> = P extends keyof T
+  ? T[P]
+  : P extends `${infer K}.${infer R}`
+    ? K extends keyof T
+      ? undefined extends T[K]
+        ? DotPathValue<NonNullable<T[K]>, R> | undefined
+        : DotPathValue<T[K], R>
+      : unknown
+    : unknown
+
+/**
+ * The value type at the dot-notation path of the config object, when a
+ * default value is provided.
+ */
+export type DotPathValueOrDefault<T, P extends string, V> =
+  unknown extends DotPathValue<T, P>
+    ? V
+    : Exclude<DotPathValue<T, P>, undefined>
+
 export type OnDidChangeCallback<T> = (newValue?: T, oldValue?: T) => void
 
 export type OnDidAnyChangeCallback<T> = (
@@ -134,12 +586,109 @@ export type OnDidAnyChangeCallback<T> = (
   oldValue?: Readonly<T>
 ) => void
 
+export type CorruptInfo = {
+  /**
+   * The error thrown when reading or validating the config file.
+   */
+  error: unknown
+  /**
+   * The invalid config file path.
+   */
+  fileName: string
+  /**
+   * The path the invalid config file is backed up to.
+   */
+  backupFileName: string
+}
+
+export type OnCorruptCallback = (info: CorruptInfo) => void
+
+export type OnErrorCallback = (error: unknown) => void
+
 export type Unsubscribe = () => void
 
-export type ConfOptions<T extends Record<string, any>> = Options<T>
+export type ConfOptions<T extends Record<string, any>> = Omit<
+  Options<T>,
+  'encryption'
+> & {
+  /**
+   * Encrypt the config file. It can be a key used to encrypt with AES-256-GCM,
+   * or a custom cipher. Set to `true` to use Electron
+   * [`safeStorage`](https://www.electronjs.org/docs/latest/api/safe-storage),
+   * which is only available after the app is ready.
+   *
+   * An existing unencrypted config file is encrypted the first time it is read.
+   */
+  encryption?: Options<T>['encryption'] | boolean
+}
+
+export type RendererListenerOptions = {
+  /**
+   * Only allow the renderer to read items, `set`, `reset`, `delete` and
+   * `clear` are rejected.
+   *
+   * @default false
+   */
+  readOnly?: boolean
+  /**
+   * The patterns of the keys that the renderer can access. A key matches a
+   * pattern if it is the pattern path or nested under it, `*` matches any
+   * single segment of the path. For example, `ui.*` matches `ui.theme` and
+   * `ui.theme.color`, but not `ui`.
+   *
+   * By default, all keys can be accessed.
+   */
+  allow?: string[]
+  /**
+   * The patterns of the keys that the renderer cannot access, which takes
+   * precedence over `allow`. The keys containing a denied key, such as `auth`
+   * for `auth.*`, cannot be accessed either.
+   */
+  deny?: string[]
+  /**
+   * Check if the sender is allowed to access the config, such as checking
+   * `event.senderFrame.url` or `event.sender.id`.
+   */
+  allowSender?: (event: IpcMainInvokeEvent) => boolean
+}
+
+export type PortListenerOptions = Omit<RendererListenerOptions, 'allowSender'>
 
-interface IpcRenderer {
+/**
+ * The transport used by the renderer process `Conf` to call the main process,
+ * such as `ipcRenderer` or a MessagePort.
+ */
+export interface ConfTransport {
   invoke(channel: string, ...args: any[]): Promise<any>
+  /**
+   * Send a message to the main process synchronously, and return the value
+   * of the main process listener. It is required by the `sync` option.
+   */
+  sendSync?(channel: string, ...args: any[]): any
+  /**
+   * Listen to `channel`, when a new message arrives `listener` would be called
+   * with `listener(...args)`.
+   * @returns A function, that when called, will remove the listener.
+   */
+  on(channel: string, listener: (...args: any[]) => void): () => void
+}
+
+interface IpcRenderer extends ConfTransport {
+  sendSync(channel: string, ...args: any[]): any
+}
+
+/**
+ * The MessagePort of the web, Node.js `worker_threads` or Electron main
+ * process (`MessagePortMain`).
+ */
+export interface MessagePortLike {
+  postMessage(message: any): void
+  start?(): void
+  close?(): void
+  addEventListener?(type: string, listener: (event: any) => void): void
+  removeEventListener?(type: string, listener: (event: any) => void): void
+  on?(event: string, listener: (event: any) => void): unknown
+  off?(event: string, listener: (event: any) => void): unknown
 }
 
 export interface ConfAPI {
@@ -1,4 +1,10 @@
 import util from 'node:util'
+import { escapePath } from 'dot-prop'
+
+import type { ConfChange } from './types'
+
+// the key of the items used to manage the module internal operations
+export const INTERNAL_KEY = '__internal__'
 
 export function deepEqual(val1: unknown, val2: unknown): boolean {
   return util.isDeepStrictEqual(val1, val2)
@@ -18,6 +24,53 @@ export function mergeObject<T = Record<string, unknown>>(
   return Object.assign(createPlainObject(), ...sources)
 }
 
+export function isPlainObject(
+  value: unknown
+): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Deep merge the plain objects of the sources into a new object, the later
+ * sources take precedence. The values are cloned, so that mutating the result
+ * does not change the sources.
+ * @param arrayMerge How the arrays are merged. `replace` uses the array of the
+ * later source, `union` also appends the items of the earlier source that are
+ * not in it.
+ */
+export function deepMergeObject<T = Record<string, unknown>>(
+  sources: unknown[],
+  arrayMerge: 'replace' | 'union' = 'replace'
+): T {
+  const merge = (target: unknown, source: unknown): unknown => {
+    if (isPlainObject(target) && isPlainObject(source)) {
+      const merged = Object.assign(
+        Object.create(Object.getPrototypeOf(target)),
+        target
+      )
+      for (const [key, value] of Object.entries(source)) {
+        merged[key] = merge(merged[key], value)
+      }
+      return merged
+    }
+
+    if (
+      arrayMerge === 'union' &&
+      Array.isArray(target) &&
+      Array.isArray(source)
+    ) {
+      return deepCloneObject([
+        ...source,
+        ...target.filter((item) => !source.some((s) => deepEqual(s, item)))
+      ])
+    }
+
+    return source === undefined ? target : deepCloneObject(source)
+  }
+
+  return sources.reduce<unknown>(merge, createPlainObject()) as T
+}
+
 export function deepCloneObject<T = Record<string, unknown>>(source: T): T {
   if (source === null || typeof source !== 'object') {
     return source
@@ -31,3 +84,68 @@ export function deepCloneObject<T = Record<string, unknown>>(source: T): T {
 
   return cloned
 }
+
+/**
+ * Get the `default` values of the properties in the JSON Schema, including
+ * the nested object properties.
+ */
+export function getSchemaDefaults<T = Record<string, unknown>>(
+  schema: unknown
+): Partial<T> {
+  const defaults: Record<string, unknown> = {}
+
+  const properties = (schema as any)?.properties
+  if (!properties || typeof properties !== 'object') {
+    return defaults as Partial<T>
+  }
+
+  for (const [key, property] of Object.entries<any>(properties)) {
+    if (property && typeof property === 'object') {
+      if ('default' in property) {
+        defaults[key] = deepCloneObject(property.default)
+      } else {
+        const nested = getSchemaDefaults(property)
+        if (Object.keys(nested).length) {
+          defaults[key] = nested
+        }
+      }
+    }
+  }
+
+  return defaults as Partial<T>
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  if (!isPlainObject(value)) {
+    return false
+  }
+
+  const proto = Object.getPrototypeOf(value)
+  return proto === null || proto === Object.prototype
+}
+
+/**
+ * Get the changes between two objects, with the dot-notation paths of the
+ * changed values. The plain objects are compared recursively, other values,
+ * such as arrays and dates, are compared as a whole.
+ */
+export function diffObject(
+  oldObject: unknown,
+  newObject: unknown,
+  prefix = ''
+): ConfChange[] {
+  if (isRecord(oldObject) && isRecord(newObject)) {
+    const keys = new Set([...Object.keys(oldObject), ...Object.keys(newObject)])
+    return [...keys].flatMap((key) =>
+      diffObject(
+        oldObject[key],
+        newObject[key],
+        prefix ? `${prefix}.${escapePath(key)}` : escapePath(key)
+      )
+    )
+  }
+
+  return deepEqual(oldObject, newObject)
+    ? []
+    : [{ path: prefix, oldValue: oldObject, newValue: newObject }]
+}
@@ -0,0 +1,29 @@
+import { it, expect } from 'vitest'
+
+import { isKeyAllowed } from '../src/access'
+
+it('allow all keys by default', () => {
+  expect(isKeyAllowed('foo')).to.be.true
+  expect(isKeyAllowed(undefined)).to.be.true
+})
+
+it('allow key patterns', () => {
+  const allow = ['ui.*', 'foo']
+  expect(isKeyAllowed('ui.theme', allow)).to.be.true
+  expect(isKeyAllowed('ui.theme.color', allow)).to.be.true
+  expect(isKeyAllowed('foo.bar', allow)).to.be.true
+  expect(isKeyAllowed('ui', allow)).to.be.false
+  expect(isKeyAllowed('bar', allow)).to.be.false
+  expect(isKeyAllowed(undefined, allow)).to.be.false
+})
+
+it('deny key patterns', () => {
+  const deny = ['auth.*', '*.secret']
+  expect(isKeyAllowed('ui.theme', undefined, deny)).to.be.true
+  expect(isKeyAllowed('auth.token', undefined, deny)).to.be.false
+  expect(isKeyAllowed('auth', undefined, deny)).to.be.false
+  expect(isKeyAllowed('ui.secret', undefined, deny)).to.be.false
+  expect(isKeyAllowed('ui', undefined, deny)).to.be.false
+  expect(isKeyAllowed(undefined, undefined, deny)).to.be.false
+  expect(isKeyAllowed('ui.theme', ['ui.*'], ['ui.theme'])).to.be.false
+})
@@ -0,0 +1,95 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { it, expect, describe, afterAll, vi } from 'vitest'
+
+import { BaseConf } from '../src/conf'
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'electron-conf-'))
+
+type TestObj = { foo?: string }
+
+describe('backup', () => {
+  it('back up before each write and rotate', () => {
+    const conf = new BaseConf<TestObj>({
+      dir,
+      name: 'rotate',
+      backup: { count: 2 }
+    })
+    conf.set('foo', 'a')
+    conf.set('foo', 'b')
+    conf.set('foo', 'c')
+    conf.set('foo', 'd')
+
+    const backups = conf.listBackups()
+    expect(backups).toHaveLength(2)
+    expect(backups[0].date.getTime()).toBeGreaterThan(backups[1].date.getTime())
+
+    conf.restoreBackup(backups[0].id)
+    expect(conf.get('foo')).toBe('c')
+  })
+
+  it('create and restore the labeled backup', () => {
+    const conf = new BaseConf<TestObj>({ dir, name: 'label', backup: true })
+    conf.set('foo', 'a')
+    const backup = conf.createBackup('before-reset')
+    expect(backup.label).toBe('before-reset')
+    expect(backup.id).toMatch(/^\d+-before-reset$/)
+
+    conf.clear()
+
+    const onDidChange = vi.fn()
+    conf.onDidChange('foo', onDidChange)
+    conf.restoreBackup(backup.id)
+    expect(conf.get('foo')).toBe('a')
+    expect(onDidChange).toHaveBeenCalledWith('a', undefined)
+
+    expect(() => conf.createBackup('a/b')).toThrowError(TypeError)
+    expect(() => conf.restoreBackup('0')).toThrowError('does not exist')
+  })
+
+  it('validate the backup against the schema', () => {
+    const name = 'schema'
+    const conf = new BaseConf<TestObj>({ dir, name })
+    conf.set('foo', 'a')
+    const backup = conf.createBackup()
+
+    const schemaConf = new BaseConf<TestObj>({
+      dir,
+      name,
+      schema: {
+        type: 'object',
+        properties: { foo: { type: 'string', maxLength: 0 } }
+      },
+      clearInvalidConfig: true
+    })
+    expect(() => schemaConf.restoreBackup(backup.id)).toThrowError(
+      'Config schema violation'
+    )
+  })
+
+  it('back up on a schedule', () => {
+    vi.useFakeTimers()
+    try {
+      const conf = new BaseConf<TestObj>({
+        dir,
+        name: 'interval',
+        backup: { interval: 1000 }
+      })
+      conf.set('foo', 'a')
+      expect(conf.listBackups()).toHaveLength(0)
+
+      vi.advanceTimersByTime(1000)
+      vi.advanceTimersByTime(1000)
+      expect(conf.listBackups()).toHaveLength(1)
+
+      conf.dispose()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
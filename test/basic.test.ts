@@ -1,10 +1,11 @@
 import fs from 'node:fs'
 import path from 'node:path'
 import crypto from 'node:crypto'
-import { it, expect, describe, afterAll } from 'vitest'
+import { it, expect, describe, afterAll, vi } from 'vitest'
 
 import { BaseConf } from '../src/conf'
-import { JSONSchema, Migration } from '../src/types'
+import { ConfError, toConfError } from '../src/errors'
+import { JSONSchema, Migration, Options } from '../src/types'
 
 const dir = path.join(process.cwd(), 'tmp')
 
@@ -51,6 +52,72 @@ describe('constructor options', () => {
     })
   })
 
+  describe('defaultsMerge', () => {
+    type WindowObj = {
+      window?: { width?: number; height?: number; maximized?: boolean }
+      recent?: string[]
+    }
+    const defaults: WindowObj = {
+      window: { width: 800, height: 600, maximized: false },
+      recent: ['a']
+    }
+
+    it('shallow', () => {
+      const name = genTmpName()
+      fs.writeFileSync(
+        path.join(dir, `${name}.json`),
+        JSON.stringify({ window: { width: 1024 } })
+      )
+      const conf = new BaseConf<WindowObj>({ dir, name, defaults })
+      expect(conf.get('window')).toEqual({ width: 1024 })
+    })
+
+    it('deep', () => {
+      const name = genTmpName()
+      fs.writeFileSync(
+        path.join(dir, `${name}.json`),
+        JSON.stringify({ window: { width: 1024 }, recent: ['b'] })
+      )
+      const conf = new BaseConf<WindowObj>({
+        dir,
+        name,
+        defaults,
+        defaultsMerge: 'deep'
+      })
+      expect(conf.get('window')).toEqual({
+        width: 1024,
+        height: 600,
+        maximized: false
+      })
+      expect(conf.get('recent')).toEqual(['b'])
+
+      conf.set('window.height', 768)
+      conf.reset('window.height')
+      expect(conf.get('window.height')).toBe(600)
+      expect(conf.get('window.width')).toBe(1024)
+    })
+
+    it('union arrays', () => {
+      const name = genTmpName()
+      fs.writeFileSync(
+        path.join(dir, `${name}.json`),
+        JSON.stringify({ recent: ['b', 'a'] })
+      )
+      const options = {
+        dir,
+        name,
+        defaults: { recent: ['a', 'c'] },
+        defaultsMerge: 'deep',
+        arrayMerge: 'union'
+      } as const
+      expect(new BaseConf<WindowObj>(options).get('recent')).toEqual([
+        'b',
+        'a',
+        'c'
+      ])
+    })
+  })
+
   describe.sequential('schema', () => {
     const schema: JSONSchema<NestedTestObj> = {
       type: 'object',
@@ -93,6 +160,103 @@ describe('constructor options', () => {
         errExpected
       )
     })
+    it('schema defaults', () => {
+      const name = genTmpName()
+      const schemaWithDefaults: JSONSchema<NestedTestObj> = {
+        type: 'object',
+        properties: {
+          foo: { ...schema.properties!.foo, default: unexpected },
+          bar: {
+            ...schema.properties!.bar,
+            properties: {
+              baz: { ...schema.properties!.bar.properties.baz, default: 1 }
+            }
+          }
+        }
+      }
+      fs.writeFileSync(
+        path.join(dir, `${name}.json`),
+        JSON.stringify({ bar: {} })
+      )
+
+      const conf = new BaseConf<NestedTestObj>({
+        dir,
+        name,
+        schema: schemaWithDefaults,
+        defaults: { foo: expected }
+      })
+      expect(conf.defaultValues).toEqual({ foo: expected, bar: { baz: 1 } })
+      expect(conf.get('foo')).toBe(expected)
+      expect(conf.get('bar.baz')).toBe(1)
+
+      conf.set('bar', { baz: 2 })
+      conf.reset('bar')
+      expect(conf.get('bar.baz')).toBe(1)
+      conf.clear()
+      expect(conf.store).toEqual({ foo: expected, bar: { baz: 1 } })
+    })
+    it('fill in the required items with schema defaults', () => {
+      const requiredSchema: JSONSchema<NestedTestObj> = {
+        type: 'object',
+        properties: { foo: { type: 'string', default: expected } },
+        required: ['foo']
+      }
+
+      const conf = new BaseConf<NestedTestObj>({
+        dir,
+        name: genTmpName(),
+        schema: requiredSchema
+      })
+      expect(conf.get('foo')).toBe(expected)
+
+      const name = genTmpName()
+      fs.writeFileSync(
+        path.join(dir, `${name}.json`),
+        JSON.stringify({ bar: 1 })
+      )
+      const onCorrupt = vi.fn()
+      const loaded = new BaseConf<NestedTestObj>({
+        dir,
+        name,
+        schema: requiredSchema,
+        onCorrupt
+      })
+      expect(onCorrupt).not.toHaveBeenCalled()
+      expect(loaded.store).toEqual({ foo: expected, bar: 1 })
+    })
+    it('validate batch once', () => {
+      const name = genTmpName()
+      const conf = new BaseConf<NestedTestObj>({ dir, name, schema })
+      conf.batch(() => {
+        conf.set('bar.baz', 100)
+        conf.set('bar.baz', 99)
+      })
+      expect(conf.get('bar.baz')).toBe(99)
+      expect(() =>
+        conf.batch(() => {
+          conf.set('foo', expected)
+          conf.set('bar.baz', 100)
+        })
+      ).toThrowError(errExpected)
+      expect(conf.get('foo')).toBeUndefined()
+      expect(conf.get('bar.baz')).toBe(99)
+    })
+    it('schema violation error', () => {
+      const name = genTmpName()
+      const conf = new BaseConf<NestedTestObj>({ dir, name, schema })
+      const error = (() => {
+        try {
+          conf.set('bar.baz', 100)
+        } catch (error) {
+          return error
+        }
+      })()
+      expect(error).toBeInstanceOf(ConfError)
+      expect(error).toMatchObject({
+        code: 'SCHEMA_VIOLATION',
+        details: [{ instancePath: '/bar/baz', keyword: 'maximum' }]
+      })
+    })
   })
 
   describe.sequential('migrations', () => {
@@ -138,6 +302,359 @@ describe('constructor options', () => {
       expect(conf.get('foo')).toBe(unexpected)
       expect(conf.get('bar.baz')).toBe(0)
     })
+
+    it('restore the store when a migration fails', () => {
+      expect(
+        () =>
+          new BaseConf<NestedTestObj>({
+            dir,
+            name,
+            migrations: [
+              ...secondMigrations,
+              {
+                version: 3,
+                hook: (conf): void => {
+                  conf.set('foo', expected)
+                  throw new Error('failed')
+                }
+              }
+            ]
+          })
+      ).toThrowError('failed')
+
+      const conf = new BaseConf<NestedTestObj>({ dir, name })
+      expect(conf.get('__internal__.migrationVersion')).toBe(2)
+      expect(conf.get('foo')).toBe(unexpected)
+    })
+  })
+
+  describe.sequential('async migrations', () => {
+    const name = genTmpName()
+    const migrations: Migration<NestedTestObj>[] = [
+      {
+        version: 1,
+        hook: async (conf): Promise<void> => {
+          await new Promise((resolve) => setTimeout(resolve, 10))
+          conf.set('foo', expected)
+        }
+      }
+    ]
+
+    it('require the instance to be created by create()', () => {
+      expect(
+        () =>
+          new BaseConf<NestedTestObj>({
+            dir,
+            name,
+            migrations: [{ version: 1, hook: async (): Promise<void> => {} }]
+          })
+      ).toThrowError('create()')
+
+      const conf = new BaseConf<NestedTestObj>({ dir, name })
+      expect(conf.get('__internal__.migrationVersion')).toBeUndefined()
+    })
+
+    it('ignore the late mutations of the asynchronous migration', async () => {
+      const name = genTmpName()
+      let settled: Promise<void> | undefined
+      const hook = async (conf: BaseConf<NestedTestObj>): Promise<void> => {
+        await new Promise((resolve) => setTimeout(resolve, 10))
+        conf.set('foo', unexpected)
+        throw new Error('late')
+      }
+
+      expect(
+        () =>
+          new BaseConf<NestedTestObj>({
+            dir,
+            name,
+            migrations: [{ version: 1, hook: (conf) => (settled = hook(conf)) }]
+          })
+      ).toThrowError('create()')
+      await expect(settled).rejects.toThrowError(/has been disposed/)
+
+      expect(new BaseConf<NestedTestObj>({ dir, name }).get('foo')).toBe(
+        undefined
+      )
+    })
+
+    it('wait for the migrations to finish', async () => {
+      const conf = await BaseConf.create<NestedTestObj>({
+        dir,
+        name,
+        migrations
+      })
+      expect(conf.get('__internal__.migrationVersion')).toBe(1)
+      expect(conf.get('foo')).toBe(expected)
+    })
+
+    it('restore the store when a migration fails', async () => {
+      await expect(
+        BaseConf.create<NestedTestObj>({
+          dir,
+          name,
+          migrations: [
+            ...migrations,
+            {
+              version: 2,
+              hook: async (conf): Promise<void> => {
+                conf.set('foo', unexpected)
+                throw new Error('failed')
+              }
+            }
+          ]
+        })
+      ).rejects.toThrowError('failed')
+
+      const conf = new BaseConf<NestedTestObj>({ dir, name })
+      expect(conf.get('__internal__.migrationVersion')).toBe(1)
+      expect(conf.get('foo')).toBe(expected)
+    })
+  })
+
+  describe.sequential('semver migrations', () => {
+    const name = genTmpName()
+    const calls: string[] = []
+    const migrations: Migration<NestedTestObj>[] = [
+      {
+        version: '1.0.0',
+        hook: (conf): void => conf.set('foo', 'a')
+      },
+      {
+        version: '>=2.1.0',
+        hook: (conf): void => conf.set('foo', 'b'),
+        down: (conf): void => conf.set('foo', 'a')
+      }
+    ]
+    const options: Options<NestedTestObj> = {
+      dir,
+      name,
+      migrations,
+      beforeEachMigration: (_, context): void => {
+        calls.push(`${context.direction} ${context.version}`)
+      }
+    }
+
+    it('migrate to the project version', () => {
+      const conf = new BaseConf<NestedTestObj>({
+        ...options,
+        projectVersion: '2.1.0'
+      })
+      expect(conf.get('__internal__.migrationVersion')).toBe('2.1.0')
+      expect(conf.get('foo')).toBe('b')
+      expect(calls).toEqual(['up 1.0.0', 'up >=2.1.0'])
+    })
+
+    it('roll back when downgraded', () => {
+      calls.length = 0
+      const conf = new BaseConf<NestedTestObj>({
+        ...options,
+        projectVersion: '2.0.0'
+      })
+      expect(conf.get('__internal__.migrationVersion')).toBe('2.0.0')
+      expect(conf.get('foo')).toBe('a')
+      expect(calls).toEqual(['down >=2.1.0'])
+    })
+
+    it('plan the migrations without performing them', () => {
+      calls.length = 0
+      const conf = new BaseConf<NestedTestObj>({
+        ...options,
+        projectVersion: '2.1.0',
+        dryRunMigrations: true
+      })
+      expect(conf.planMigrations()).toEqual([
+        {
+          version: '>=2.1.0',
+          fromVersion: '2.0.0',
+          toVersion: '2.1.0',
+          direction: 'up'
+        }
+      ])
+      expect(conf.get('foo')).toBe('a')
+      expect(calls).toEqual([])
+
+      const migrated = new BaseConf<NestedTestObj>({
+        ...options,
+        projectVersion: '2.0.0'
+      })
+      expect(migrated.planMigrations()).toEqual([])
+    })
+
+    it('require the project version', () => {
+      expect(() => new BaseConf<NestedTestObj>(options)).toThrowError(
+        'projectVersion'
+      )
+    })
+  })
+})
+
+describe('watch', () => {
+  it('reload on external changes', async () => {
+    const name = genTmpName()
+    const conf = new BaseConf<TestObj>({ dir, name, watch: true })
+    conf.set('foo', unexpected)
+
+    const changed = new Promise((resolve) => conf.onDidChange('foo', resolve))
+    fs.writeFileSync(conf.fileName, JSON.stringify({ foo: expected }))
+
+    expect(await changed).toBe(expected)
+    expect(conf.get('foo')).toBe(expected)
+  })
+
+  it('report invalid external changes', async () => {
+    const name = genTmpName()
+    const conf = new BaseConf<TestObj>({ dir, name, watch: true })
+    conf.set('foo', expected)
+
+    const error = new Promise((resolve) => conf.onError(resolve))
+    fs.writeFileSync(conf.fileName, '{ "foo": ')
+
+    expect(await error).toBeInstanceOf(SyntaxError)
+    expect(conf.get('foo')).toBe(expected)
+  })
+})
+
+describe('async', () => {
+  it('coalesce writes until flush', async () => {
+    const name = genTmpName()
+    const serializer = {
+      read: JSON.parse,
+      write: vi.fn((value) => JSON.stringify(value))
+    }
+    const conf = new BaseConf<NestedTestObj>({
+      dir,
+      name,
+      serializer,
+      async: true
+    })
+    conf.set('foo', unexpected)
+    conf.set('bar.baz', 1)
+    conf.set('foo', expected)
+    expect(conf.get('foo')).toBe(expected)
+    expect(fs.existsSync(conf.fileName)).to.be.false
+
+    await conf.flush()
+    expect(serializer.write).toHaveBeenCalledOnce()
+    expect(JSON.parse(fs.readFileSync(conf.fileName, 'utf8'))).toEqual({
+      foo: expected,
+      bar: { baz: 1 }
+    })
+
+    conf.delete('foo')
+    await conf.flush()
+    expect(JSON.parse(fs.readFileSync(conf.fileName, 'utf8'))).toEqual({
+      bar: { baz: 1 }
+    })
+  })
+})
+
+describe('encryption', () => {
+  const encryption = 'secret'
+
+  it('encrypt config file', () => {
+    const name = genTmpName()
+    const conf = new BaseConf<TestObj>({ dir, name, encryption })
+    conf.set('foo', expected)
+    expect(fs.readFileSync(conf.fileName, 'utf8')).not.toContain(expected)
+    expect(new BaseConf<TestObj>({ dir, name, encryption }).get('foo')).toBe(
+      expected
+    )
+    expect(
+      () => new BaseConf<TestObj>({ dir, name, encryption: unexpected })
+    ).toThrowError()
+  })
+
+  it('custom cipher', () => {
+    const name = genTmpName()
+    const cipher = {
+      encrypt: (data: string): Buffer => Buffer.from(data).reverse(),
+      decrypt: (data: Buffer): string => Buffer.from(data).reverse().toString()
+    }
+    const conf = new BaseConf<TestObj>({ dir, name, encryption: cipher })
+    conf.set('foo', expected)
+    expect(cipher.decrypt(fs.readFileSync(conf.fileName))).toContain(expected)
+  })
+
+  it('migrate unencrypted config file', () => {
+    const name = genTmpName()
+    new BaseConf<TestObj>({ dir, name }).set('foo', expected)
+    const conf = new BaseConf<TestObj>({ dir, name, encryption })
+    expect(conf.get('foo')).toBe(expected)
+    expect(fs.readFileSync(conf.fileName, 'utf8')).not.toContain(expected)
+  })
+})
+
+describe('clear invalid config', () => {
+  const defaults = { foo: expected }
+
+  it('throw by default', () => {
+    const name = genTmpName()
+    fs.writeFileSync(path.join(dir, `${name}.json`), '{ "foo": ')
+    expect(() => new BaseConf<TestObj>({ dir, name, defaults })).toThrowError(
+      SyntaxError
+    )
+  })
+
+  it('back up malformed file and start from defaults', () => {
+    const name = genTmpName()
+    const fileName = path.join(dir, `${name}.json`)
+    fs.writeFileSync(fileName, '{ "foo": ')
+
+    const onCorrupt = vi.fn()
+    const conf = new BaseConf<TestObj>({ dir, name, defaults, onCorrupt })
+    expect(conf.get('foo')).toBe(expected)
+
+    expect(onCorrupt).toHaveBeenCalledOnce()
+    const { error, backupFileName } = onCorrupt.mock.calls[0][0]
+    expect(error).toBeInstanceOf(SyntaxError)
+    expect(backupFileName).toMatch(/\.json\.corrupt-\d+$/)
+    expect(fs.readFileSync(backupFileName, 'utf8')).toBe('{ "foo": ')
+  })
+
+  it('back up file which fails validation', () => {
+    const name = genTmpName()
+    const fileName = path.join(dir, `${name}.json`)
+    fs.writeFileSync(fileName, JSON.stringify({ foo: 1 }))
+
+    const schema: JSONSchema<TestObj> = {
+      type: 'object',
+      properties: { foo: { type: 'string', nullable: true } }
+    }
+    const conf = new BaseConf<TestObj>({
+      dir,
+      name,
+      schema,
+      clearInvalidConfig: true
+    })
+    expect(conf.get('foo')).toBeUndefined()
+    expect(
+      fs.readdirSync(dir).some((f) => f.startsWith(`${name}.json.corrupt-`))
+    ).to.be.true
+  })
+  it('keep encrypted file on cipher errors', () => {
+    const name = genTmpName()
+    const fileName = path.join(dir, `${name}.json`)
+    new BaseConf<TestObj>({ dir, name, encryption: 'secret' }).set(
+      'foo',
+      expected
+    )
+    const content = fs.readFileSync(fileName)
+
+    const cipher = {
+      encrypt: (): Buffer => {
+        throw new Error('unavailable')
+      },
+      decrypt: (): string => {
+        throw new Error('unavailable')
+      }
+    }
+    const onCorrupt = vi.fn()
+    expect(
+      () => new BaseConf<TestObj>({ dir, name, encryption: cipher, onCorrupt })
+    ).toThrowError('unavailable')
+    expect(onCorrupt).not.toHaveBeenCalled()
+    expect(fs.readFileSync(fileName)).toEqual(content)
   })
 })
 
@@ -177,6 +694,27 @@ describe.sequential('instance methods', () => {
     )
   })
 
+  it('serializable errors', () => {
+    const catchError = (cb: () => void): unknown => {
+      try {
+        cb()
+      } catch (error) {
+        return error
+      }
+    }
+
+    const reserved = catchError(() => conf.set('__internal__.foo' as any, 1))
+    expect(reserved).toBeInstanceOf(TypeError)
+    expect(toConfError(reserved)?.code).toBe('RESERVED_KEY')
+
+    const invalid = toConfError(catchError(() => conf.set(1 as any, 1)))
+    expect(ConfError.fromJSON(invalid!.toJSON())).toMatchObject({
+      code: 'INVALID_TYPE',
+      message: expect.stringContaining("'key'")
+    })
+    expect(toConfError(new Error('failed'))).toBeUndefined()
+  })
+
   it('.has()', () => {
     expect(conf.has('foo')).to.be.true
     expect(conf.has('boo')).to.be.false
@@ -202,6 +740,27 @@ describe.sequential('instance methods', () => {
     expect(conf.get('bar.baz')).toBe(100)
   })
 
+  it('.size', () => {
+    const conf = new BaseConf<NestedTestObj & { tmp?: string }>({
+      dir,
+      name: genTmpName(),
+      migrations: [{ version: 1, hook: (conf): void => conf.set('foo', 'a') }]
+    })
+    expect(conf.size).toBe(1)
+
+    vi.useFakeTimers()
+    try {
+      conf.set('tmp', 'a', { ttl: 1000 })
+      expect(conf.size).toBe(2)
+      vi.advanceTimersByTime(1001)
+      expect(conf.has('tmp')).toBe(false)
+      expect(conf.size).toBe(1)
+      expect([...conf]).toEqual([['foo', 'a']])
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
   it('.onDidChange()', () => {
     const fooCb = (newValue, oldValue): void => {
       expect(oldValue).toBeUndefined()
@@ -233,6 +792,252 @@ describe.sequential('instance methods', () => {
     conf.set('foo', unexpected)
     unsubscribe()
   })
+
+  it('.batch()', () => {
+    const cb = vi.fn()
+    const unsubscribe = conf.onDidAnyChange(cb)
+
+    conf.batch(() => {
+      conf.set('foo', 'batch')
+      conf.set('bar.baz', 1)
+      expect(conf.get('foo')).toBe('batch')
+    })
+    expect(cb).toHaveBeenCalledOnce()
+    expect(conf.get('foo')).toBe('batch')
+    expect(conf.get('bar.baz')).toBe(1)
+
+    expect(() =>
+      conf.batch(() => {
+        conf.set('bar.baz', 2)
+        conf.delete('foo')
+        throw new Error('rollback')
+      })
+    ).toThrowError('rollback')
+    expect(cb).toHaveBeenCalledOnce()
+    expect(conf.get('foo')).toBe('batch')
+    expect(conf.get('bar.baz')).toBe(1)
+
+    unsubscribe()
+  })
+})
+
+describe('ttl', () => {
+  it('expire the items', () => {
+    vi.useFakeTimers()
+    try {
+      const conf = new BaseConf<NestedTestObj>({ dir, name: genTmpName() })
+      conf.set('foo', expected, { ttl: 1000 })
+      conf.set({ bar: { baz: 1 } }, { ttl: 2000 })
+      expect(conf.get('foo')).toBe(expected)
+
+      vi.advanceTimersByTime(1000)
+      expect(conf.get('foo')).toBeUndefined()
+      expect(conf.get('foo', unexpected)).toBe(unexpected)
+      expect(conf.has('foo')).toBe(false)
+      expect(conf.get('bar.baz')).toBe(1)
+
+      vi.advanceTimersByTime(1000)
+      expect(conf.has('bar.baz')).toBe(false)
+
+      conf.prune()
+      expect(conf.store).toEqual({})
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('clear the expiry when the item is overwritten', () => {
+    vi.useFakeTimers()
+    try {
+      const conf = new BaseConf<NestedTestObj>({ dir, name: genTmpName() })
+      conf.set('bar.baz', 1, { ttl: 1000 })
+      conf.set('bar', { baz: 2 })
+
+      vi.advanceTimersByTime(1000)
+      expect(conf.get('bar.baz')).toBe(2)
+      expect(conf.store).toEqual({ bar: { baz: 2 } })
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('set the item under an expired item', () => {
+    vi.useFakeTimers()
+    try {
+      const conf = new BaseConf<NestedTestObj>({ dir, name: genTmpName() })
+      conf.set('bar', { baz: 1 }, { ttl: 1000 })
+
+      vi.advanceTimersByTime(1000)
+      conf.set('bar.baz', 2)
+      expect(conf.get('bar.baz')).toBe(2)
+      expect(conf.has('bar.baz')).toBe(true)
+      expect(conf.store).toEqual({ bar: { baz: 2 } })
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('throw on invalid ttl', () => {
+    const conf = new BaseConf<NestedTestObj>({ dir, name: genTmpName() })
+    expect(() => conf.set('foo', expected, { ttl: -1 })).toThrowError(TypeError)
+  })
+})
+
+describe('change events', () => {
+  it('carry the changed paths and origin', () => {
+    const conf = new BaseConf<NestedTestObj>({
+      dir,
+      name: genTmpName(),
+      defaults: { bar: { baz: 100 } }
+    })
+    const callback = vi.fn()
+    conf.onDidChangeDetailed(callback)
+
+    conf.set('bar.baz', 1)
+    expect(callback).toHaveBeenLastCalledWith({
+      changes: [{ path: 'bar.baz', oldValue: 100, newValue: 1 }],
+      origin: 'main'
+    })
+
+    conf.reset('bar.baz')
+    expect(callback).toHaveBeenLastCalledWith({
+      changes: [{ path: 'bar.baz', oldValue: 1, newValue: 100 }],
+      origin: 'reset'
+    })
+
+    conf.set('bar.baz', 100)
+    expect(callback).toHaveBeenCalledTimes(2)
+  })
+
+  it('from migrations', () => {
+    const callback = vi.fn()
+    new BaseConf<NestedTestObj>({
+      dir,
+      name: genTmpName(),
+      migrations: [
+        {
+          version: 1,
+          hook: (conf): void => {
+            conf.onDidChangeDetailed(callback)
+            conf.set('foo', expected)
+          }
+        }
+      ]
+    })
+    expect(callback).toHaveBeenCalledWith({
+      changes: [{ path: 'foo', oldValue: undefined, newValue: expected }],
+      origin: 'migration'
+    })
+  })
+
+  it('from external edits', () => {
+    const name = genTmpName()
+    const conf = new BaseConf<NestedTestObj>({ dir, name, lock: true })
+    const other = new BaseConf<NestedTestObj>({ dir, name, lock: true })
+    const callback = vi.fn()
+    conf.onDidChangeDetailed(callback)
+
+    other.set('foo', expected)
+    conf.set('bar.baz', 1)
+    expect(callback).toHaveBeenNthCalledWith(1, {
+      changes: [{ path: 'foo', oldValue: undefined, newValue: expected }],
+      origin: 'external'
+    })
+    expect(callback).toHaveBeenNthCalledWith(2, {
+      changes: [{ path: 'bar', oldValue: undefined, newValue: { baz: 1 } }],
+      origin: 'main'
+    })
+  })
+})
+
+describe('history', () => {
+  it('undo and redo the mutations', () => {
+    const conf = new BaseConf<NestedTestObj>({
+      dir,
+      name: genTmpName(),
+      defaults: { bar: { baz: 100 } },
+      history: true
+    })
+    expect(conf.canUndo).toBe(false)
+
+    conf.set('foo', expected)
+    conf.set('bar.baz', 1)
+    conf.delete('foo')
+    conf.reset('bar.baz')
+
+    expect(conf.undo()).toBe(true)
+    expect(conf.get('bar.baz')).toBe(1)
+    expect(conf.undo()).toBe(true)
+    expect(conf.get('foo')).toBe(expected)
+    expect(conf.redo()).toBe(true)
+    expect(conf.get('foo')).toBeUndefined()
+    expect(conf.canRedo).toBe(true)
+
+    conf.clear()
+    expect(conf.canRedo).toBe(false)
+    expect(conf.redo()).toBe(false)
+    expect(conf.undo()).toBe(true)
+    expect(conf.get('bar.baz')).toBe(1)
+  })
+
+  it('record the batch as one mutation', () => {
+    const conf = new BaseConf<NestedTestObj>({
+      dir,
+      name: genTmpName(),
+      history: true
+    })
+    conf.batch(() => {
+      conf.set('foo', expected)
+      conf.set('bar.baz', 1)
+    })
+
+    conf.undo()
+    expect(conf.store).toEqual({})
+    expect(conf.canUndo).toBe(false)
+  })
+
+  it('limit the history', () => {
+    const conf = new BaseConf<NestedTestObj>({
+      dir,
+      name: genTmpName(),
+      history: { limit: 2 }
+    })
+    conf.set('bar.baz', 1)
+    conf.set('bar.baz', 2)
+    conf.set('bar.baz', 3)
+
+    expect(conf.undo()).toBe(true)
+    expect(conf.undo()).toBe(true)
+    expect(conf.undo()).toBe(false)
+    expect(conf.get('bar.baz')).toBe(1)
+  })
+
+  it('disabled by default', () => {
+    const conf = new BaseConf<NestedTestObj>({ dir, name: genTmpName() })
+    conf.set('foo', expected)
+    expect(conf.canUndo).toBe(false)
+    expect(conf.undo()).toBe(false)
+  })
+})
+
+describe('dispose', () => {
+  it('remove callbacks and fail later calls', async () => {
+    const name = genTmpName()
+    const conf = new BaseConf<TestObj>({ dir, name, watch: true })
+    const cb = vi.fn()
+    conf.onDidAnyChange(cb)
+    conf.set('foo', expected)
+    expect(cb).toHaveBeenCalledOnce()
+
+    conf.dispose()
+    expect(() => conf.get('foo')).toThrowError(/has been disposed/)
+    expect(() => conf.set('foo', unexpected)).toThrowError(/has been disposed/)
+    expect(() => conf.onDidAnyChange(cb)).toThrowError(/has been disposed/)
+
+    fs.writeFileSync(conf.fileName, JSON.stringify({ foo: unexpected }))
+    await new Promise((resolve) => setTimeout(resolve, 200))
+    expect(cb).toHaveBeenCalledOnce()
+  })
 })
 
 afterAll(() => {
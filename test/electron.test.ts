@@ -88,9 +88,14 @@ it('default path', async () => {
 })
 
 it('supports renderer', async () => {
-  const result = await context.rpc<{ baz: number; zoo: string }>('renderer')
+  const result = await context.rpc<{
+    baz: number
+    zoo: string
+    changed: number
+  }>('renderer')
   expect(result.baz).toBe(1)
   expect(result.zoo).toBe('zoo')
+  expect(result.changed).toBe(1)
 })
 
 afterAll(async () => {
@@ -42,10 +42,11 @@ app.whenReady().then(() => {
   })
 
   rpc.register('renderer', async () => {
-    const zoo = await createWindow()
+    const { zoo, changed } = await createWindow()
     return {
       baz: conf.get('bar.baz'),
-      zoo
+      zoo,
+      changed
     }
   })
 })
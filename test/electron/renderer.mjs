@@ -2,10 +2,19 @@ import { Conf } from '../../dist/renderer.mjs'
 
 window.addEventListener('DOMContentLoaded', async () => {
   const conf = new Conf()
+  const changed = new Promise((resolve) => {
+    const unsubscribe = conf.onDidChange('bar.baz', (newValue) => {
+      unsubscribe()
+      resolve(newValue)
+    })
+  })
   conf.set({
     bar: {
       baz: 1
     }
   })
-  window.api?.did(await conf.get('zoo', 'zoo'))
+  window.api?.did({
+    zoo: await conf.get('zoo', 'zoo'),
+    changed: await changed
+  })
 })
@@ -0,0 +1,105 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { it, expect, afterAll } from 'vitest'
+
+import { BaseConf } from '../src/conf'
+import { ConfError } from '../src/errors'
+import { createHost } from '../src/host'
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'electron-conf-'))
+
+type TestObj = { foo?: string; ui?: { theme?: string } }
+
+const client = { id: 1, send: (): void => {} }
+
+it('reject the writes of the read-only config', () => {
+  const conf = new BaseConf<TestObj>({ dir, name: 'read-only' })
+  const host = createHost(conf, () => conf.store, { readOnly: true })
+
+  expect(() => host.authorize('get', 'foo')).not.toThrow()
+  for (const action of [
+    'set',
+    'delete',
+    'clear',
+    'setStore',
+    'undo'
+  ] as const) {
+    expect(() => host.authorize(action, 'foo')).toThrowError(ConfError)
+  }
+  expect(() => host.authorize('reset', ['foo'])).toThrowError('read-only')
+})
+
+it('reject the whole config actions out of the allowed keys', () => {
+  const conf = new BaseConf<TestObj>({ dir, name: 'whole-config' })
+  const host = createHost(conf, () => conf.store, { allow: ['ui.*'] })
+
+  expect(() => host.authorize('set', 'ui.theme')).not.toThrow()
+  expect(() => host.authorize('set', { ui: {} })).toThrowError("key 'ui'")
+  for (const action of ['getStore', 'keys', 'size', 'clear'] as const) {
+    expect(() => host.authorize(action, undefined)).toThrowError(
+      'on the whole config'
+    )
+  }
+})
+
+it('reject the invalid keys of reset', () => {
+  const conf = new BaseConf<TestObj>({
+    dir,
+    name: 'reset',
+    defaults: { foo: 'b' }
+  })
+  const host = createHost(conf, () => conf.store)
+
+  expect(() => host.authorize('reset', 'foo')).toThrowError(
+    expect.objectContaining({ code: 'INVALID_TYPE' })
+  )
+  expect(() => host.authorize('reset', [1])).toThrowError('string[]')
+
+  conf.set('foo', 'a')
+  host.authorize('reset', ['foo'])
+  host.handle(client, 'reset', ['foo'])
+  expect(conf.get('foo')).toBe('b')
+})
+
+it('remove the subscriptions when the client is gone', () => {
+  const conf = new BaseConf<TestObj>({ dir, name: 'close' })
+  const host = createHost(conf, () => conf.store)
+
+  const sent: unknown[] = []
+  const closers: (() => void)[] = []
+  const page = {
+    id: 2,
+    send: (...args: unknown[]): void => void sent.push(args),
+    onClose: (callback: () => void): void => void closers.push(callback)
+  }
+
+  host.handle(page, 'subscribe', 'foo', 'a')
+  closers[0]()
+  conf.set('foo', 'a')
+  expect(sent).toEqual([])
+
+  // the reloaded page subscribes again
+  host.handle(page, 'subscribe', 'foo', 'b')
+  expect(closers).toHaveLength(2)
+  conf.set('foo', 'b')
+  expect(sent).toEqual([['b', 'b', 'a']])
+})
+
+it('hide the internal items from the snapshot', () => {
+  const conf = new BaseConf<TestObj>({
+    dir,
+    name: 'snapshot',
+    migrations: [{ version: 1, hook: (conf): void => conf.set('foo', 'a') }]
+  })
+  const host = createHost(conf, () => conf.store)
+
+  expect(conf.store).toHaveProperty('__internal__')
+  expect(host.snapshot()).toEqual({ foo: 'a' })
+  expect(host.handle(client, 'keys', undefined)).toEqual(['foo'])
+  expect(host.handle(client, 'size', undefined)).toBe(1)
+})
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
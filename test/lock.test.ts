@@ -0,0 +1,68 @@
+import { spawn } from 'node:child_process'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { it, expect, afterAll, vi } from 'vitest'
+
+import { BaseConf } from '../src/conf'
+import { lockSync, refreshLock } from '../src/lock'
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'electron-conf-'))
+
+const count = (name: string, times: number): Promise<number | null> => {
+  const ps = spawn(
+    process.execPath,
+    [
+      path.resolve('node_modules/vite-node/vite-node.mjs'),
+      './test/lock/counter.ts',
+      dir,
+      name,
+      String(times)
+    ],
+    { stdio: 'inherit' }
+  )
+  return new Promise((resolve) => ps.on('exit', resolve))
+}
+
+it('multiple processes', async () => {
+  const name = 'config'
+  const times = 50
+  const codes = await Promise.all([count(name, times), count(name, times)])
+  expect(codes).toEqual([0, 0])
+
+  const conf = new BaseConf<{ count?: number }>({ dir, name })
+  expect(conf.get('count')).toBe(times * 2)
+  expect(fs.existsSync(`${conf.fileName}.lock`)).to.be.false
+}, 30000)
+
+it('take over stale lock', () => {
+  const name = 'stale'
+  const conf = new BaseConf<{ count?: number }>({ dir, name, lock: true })
+  fs.writeFileSync(`${conf.fileName}.lock`, '999999999')
+  conf.set('count', 1)
+  expect(conf.get('count')).toBe(1)
+})
+
+it('refresh lock held across async operations', () => {
+  vi.useFakeTimers()
+  try {
+    const fileName = path.join(dir, 'refresh.json')
+    const release = lockSync(fileName)
+    const past = new Date(Date.now() - 60000)
+    fs.utimesSync(`${fileName}.lock`, past, past)
+
+    const stopRefresh = refreshLock(fileName)
+    vi.advanceTimersByTime(5000)
+    const { mtimeMs } = fs.statSync(`${fileName}.lock`)
+    stopRefresh()
+    release()
+
+    expect(mtimeMs).toBeGreaterThan(past.getTime())
+  } finally {
+    vi.useRealTimers()
+  }
+})
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
@@ -0,0 +1,9 @@
+import { BaseConf } from '../../src/conf'
+
+const [dir, name, count] = process.argv.slice(2)
+
+const conf = new BaseConf<{ count?: number }>({ dir, name, lock: true })
+
+for (let i = 0; i < Number(count); i++) {
+  conf.batch(() => conf.set('count', conf.get('count', 0) + 1))
+}
@@ -0,0 +1,70 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { it, expect, afterAll, afterEach } from 'vitest'
+
+import { BaseConf } from '../src/conf'
+import { getOverrides } from '../src/overrides'
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'electron-conf-'))
+
+type TestObj = { window?: { width?: number; title?: string } }
+
+it('parse the environment variables', () => {
+  const env = {
+    MYAPP_CONF__window__width: '800',
+    MYAPP_CONF__window__title: 'kiosk',
+    MYAPP_CONF__a__b__c: '{"d":true}',
+    MYAPP_CONFIG: '1',
+    OTHER__foo: '1'
+  }
+  expect(getOverrides({ env: 'MYAPP_CONF' }, env, [])).toEqual({
+    'window.width': 800,
+    'window.title': 'kiosk',
+    'a.b.c': { d: true }
+  })
+})
+
+it('parse the CLI arguments', () => {
+  const argv = ['electron', '.', '--conf.window.width=800', '--conf.debug']
+  expect(getOverrides({ argv: 'conf' }, {}, argv)).toEqual({
+    'window.width': 800,
+    debug: true
+  })
+})
+
+it('the CLI arguments take precedence', () => {
+  expect(
+    getOverrides({ env: 'APP', argv: 'conf' }, { APP__foo: '1' }, [
+      '--conf.foo=2'
+    ])
+  ).toEqual({ foo: 2 })
+})
+
+afterEach(() => {
+  delete process.env.TEST_CONF__window__width
+})
+
+it('override the items without persisting', () => {
+  process.env.TEST_CONF__window__width = '800'
+
+  const conf = new BaseConf<TestObj>({
+    dir,
+    name: 'overrides',
+    defaults: { window: { width: 1024, title: 'app' } },
+    overrides: { env: 'TEST_CONF' }
+  })
+  expect(conf.get('window.width')).toBe(800)
+  expect(conf.get('window')).toEqual({ width: 800, title: 'app' })
+  expect(conf.isOverridden('window.width')).toBe(true)
+  expect(conf.isOverridden('window')).toBe(true)
+  expect(conf.isOverridden('window.title')).toBe(false)
+
+  conf.set('window.title', 'kiosk')
+  const stored = JSON.parse(fs.readFileSync(conf.fileName, 'utf8'))
+  expect(stored).toEqual({ window: { width: 1024, title: 'kiosk' } })
+})
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
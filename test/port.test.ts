@@ -0,0 +1,144 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { MessageChannel, type MessagePort } from 'node:worker_threads'
+import { it, expect, afterAll, afterEach } from 'vitest'
+
+import { BaseConf } from '../src/conf'
+import { ConfError } from '../src/errors'
+import { Conf, createPortTransport } from '../src/renderer'
+
+import type { ChangeInfo } from '../src/types'
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'electron-conf-'))
+
+type TestObj = { foo?: string; bar?: { baz?: number } }
+
+const ports: MessagePort[] = []
+
+function connect(
+  conf: BaseConf<TestObj>,
+  options?: Parameters<BaseConf['servePort']>[1]
+): Conf<TestObj> {
+  const { port1, port2 } = new MessageChannel()
+  ports.push(port1, port2)
+  conf.servePort(port1, options)
+  return new Conf<TestObj>({ transport: createPortTransport(port2) })
+}
+
+afterEach(() => {
+  ports.splice(0).forEach((port) => port.close())
+})
+
+it('call the config over the port', async () => {
+  const conf = new BaseConf<TestObj>({ dir, name: 'port' })
+  const client = connect(conf)
+
+  const changes: ChangeInfo[] = []
+  conf.onDidChangeDetailed((info) => changes.push(info))
+
+  await client.set('foo', 'a')
+  expect(conf.get('foo')).toBe('a')
+  expect(await client.get('foo')).toBe('a')
+  expect(await client.has('bar')).toBe(false)
+  expect(changes[0].origin).toBe('port')
+
+  await client.setStore({ bar: { baz: 1 } })
+  expect(await client.getStore()).toEqual({ bar: { baz: 1 } })
+  expect(await client.size()).toBe(1)
+})
+
+it('read the store as get() does', async () => {
+  process.env.PORT_CONF__bar__baz = '2'
+  try {
+    const conf = new BaseConf<TestObj>({
+      dir,
+      name: 'port-live',
+      overrides: { env: 'PORT_CONF' }
+    })
+    const client = connect(conf)
+
+    expect(await client.getStore()).toEqual({ bar: { baz: 2 } })
+    expect(await client.keys()).toEqual(['bar'])
+    expect(await client.size()).toBe(1)
+  } finally {
+    delete process.env.PORT_CONF__bar__baz
+  }
+})
+
+it('write only the changed items of the store', async () => {
+  const sourceFileName = path.join(dir, 'port-source.json')
+  fs.writeFileSync(sourceFileName, JSON.stringify({ bar: { baz: 1 } }))
+  process.env.PORT_CONF__kiosk = 'true'
+  try {
+    const conf = new BaseConf<TestObj & { kiosk?: boolean }>({
+      dir,
+      name: 'port-round-trip',
+      defaults: { foo: 'a' },
+      sources: [{ fileName: sourceFileName, locked: true }],
+      overrides: { env: 'PORT_CONF' }
+    })
+    const client = connect(conf as BaseConf<TestObj>)
+
+    const store = await client.getStore()
+    expect(store).toEqual({ foo: 'a', bar: { baz: 1 }, kiosk: true })
+    await client.setStore({ ...store, foo: 'b' })
+
+    expect(conf.store).toEqual({ foo: 'b' })
+    expect(conf.get('kiosk')).toBe(true)
+    expect(conf.get('bar.baz')).toBe(1)
+  } finally {
+    delete process.env.PORT_CONF__kiosk
+  }
+})
+
+it('push the changes to the port', async () => {
+  const conf = new BaseConf<TestObj>({ dir, name: 'port-events' })
+  const client = connect(conf)
+
+  const values = await new Promise<unknown[]>((resolve) => {
+    client.onDidChange('bar.baz', (...values) => resolve(values))
+    // wait for the subscription to be registered
+    client.get('foo').then(() => conf.set('bar.baz', 2))
+  })
+  expect(values).toEqual([2, undefined])
+})
+
+it('reject the calls with the ConfError', async () => {
+  const conf = new BaseConf<TestObj>({ dir, name: 'port-errors' })
+  const client = connect(conf, { readOnly: true })
+
+  expect(await client.get('foo', 'b')).toBe('b')
+  await expect(client.set('foo', 'a')).rejects.toThrowError(ConfError)
+  await expect(client.delete('foo')).rejects.toMatchObject({
+    code: 'ACCESS_DENIED'
+  })
+  expect(
+    () => new Conf({ sync: true, transport: client['transport'] })
+  ).toThrowError('sync')
+})
+
+it('reject the calls when the config is disposed', async () => {
+  const conf = new BaseConf<TestObj>({ dir, name: 'port-dispose' })
+  const client = connect(conf)
+
+  expect(await client.size()).toBe(0)
+  conf.dispose()
+
+  await expect(client.size()).rejects.toThrowError('no longer served')
+})
+
+it('reject the calls when the port is closed', async () => {
+  const conf = new BaseConf<TestObj>({ dir, name: 'port-close' })
+  const client = connect(conf)
+
+  const pending = client.size()
+  ports[0].close()
+
+  await expect(pending).rejects.toThrowError('closed')
+  await expect(client.size()).rejects.toThrowError('closed')
+})
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
@@ -0,0 +1,133 @@
+import { it, expect, beforeEach, vi } from 'vitest'
+
+import { Conf } from '../src/renderer'
+import { ConfError } from '../src/errors'
+
+import type { ConfAPI } from '../src/types'
+
+type TestObj = { foo?: string; bar?: { baz?: number } }
+
+let store: TestObj
+let reject = false
+let rejectSubscribe = false
+let push: ((id: string, ...args: any[]) => void) | undefined
+let subscription: string | undefined
+let actions: string[] = []
+
+const api: ConfAPI = {
+  ipcRenderer: {
+    async invoke(_, action, ...args) {
+      actions.push(action)
+      if (action === 'subscribe') {
+        if (rejectSubscribe) {
+          return { error: { code: 'ACCESS_DENIED', message: 'denied' } }
+        }
+        subscription = args[1]
+      }
+      if (action === 'set') {
+        if (reject) {
+          return { error: { code: 'ACCESS_DENIED', message: 'denied' } }
+        }
+        const [key, value] = args
+        const oldStore = store
+        store = { ...store, [key]: value }
+        push?.(subscription!, store, oldStore)
+      }
+      if (action === 'getStore') {
+        return { value: store }
+      }
+      if (action === 'keys') {
+        return { value: Object.keys(store) }
+      }
+      return { value: undefined }
+    },
+    sendSync(_, id) {
+      subscription = id
+      return { value: structuredClone(store) }
+    },
+    on(_, listener) {
+      push = listener
+      return () => (push = undefined)
+    }
+  }
+}
+
+globalThis.__ELECTRON_CONF__ = api
+
+beforeEach(() => {
+  store = { foo: 'a', bar: { baz: 1 } }
+  reject = false
+  rejectSubscribe = false
+  actions = []
+})
+
+it('read the hydrated snapshot synchronously', () => {
+  const conf = new Conf<TestObj>({ sync: true })
+  expect(conf.getSync('foo')).toBe('a')
+  expect(conf.getSync('bar.baz')).toBe(1)
+  expect(conf.getSync('baz' as any, 0)).toBe(0)
+
+  expect(() => new Conf<TestObj>().getSync('foo')).toThrowError('sync')
+})
+
+it('subscribe the snapshot along with the hydration', () => {
+  const conf = new Conf<TestObj>({ sync: true })
+  expect(actions).not.toContain('subscribe')
+
+  push?.(subscription!, { foo: 'b' }, store)
+  expect(conf.getSync('foo')).toBe('b')
+})
+
+it('update the snapshot optimistically', async () => {
+  const conf = new Conf<TestObj>({ sync: true })
+  const result = conf.set('foo', 'b')
+  expect(conf.getSync('foo')).toBe('b')
+  await result
+  expect(conf.getSync('foo')).toBe('b')
+})
+
+it('keep the snapshot current with the pushes', async () => {
+  const conf = new Conf<TestObj>({ sync: true })
+  store = { foo: 'c' }
+  push?.(subscription!, store, {})
+  expect(conf.getSync('foo')).toBe('c')
+  expect(conf.getSync('bar')).toBeUndefined()
+})
+
+it('roll back the rejected change', async () => {
+  reject = true
+  const conf = new Conf<TestObj>({ sync: true })
+  const result = conf.set('bar.baz', 2)
+  expect(conf.getSync('bar.baz')).toBe(2)
+  await expect(result).rejects.toThrowError(ConfError)
+  expect(conf.getSync('bar.baz')).toBe(1)
+})
+
+it('read the whole store', async () => {
+  const conf = new Conf<TestObj>()
+  expect(await conf.getStore()).toEqual({ foo: 'a', bar: { baz: 1 } })
+  expect(await conf.keys()).toEqual(['foo', 'bar'])
+})
+
+it('report the rejected subscription', async () => {
+  rejectSubscribe = true
+  const conf = new Conf<TestObj>()
+  const error = await new Promise((resolve) => {
+    conf.onError(resolve)
+    conf.onDidChange('foo', () => {})
+  })
+  expect(error).toBeInstanceOf(ConfError)
+})
+
+it('warn of the rejected subscription without error callbacks', async () => {
+  rejectSubscribe = true
+  const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+  try {
+    const conf = new Conf<TestObj>()
+    conf.onDidChange('foo', () => {})
+    await vi.waitFor(() => expect(warn).toHaveBeenCalledOnce())
+    expect(warn.mock.calls[0][0]).toBeInstanceOf(ConfError)
+  } finally {
+    warn.mockRestore()
+  }
+})
@@ -0,0 +1,100 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { it, expect, describe, afterAll } from 'vitest'
+
+import { BaseConf } from '../src/conf'
+import { createYamlSerializer } from '../src/serializers/yaml'
+import { createTomlSerializer } from '../src/serializers/toml'
+import { createJson5Serializer } from '../src/serializers/json5'
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'electron-conf-'))
+
+type TestObj = {
+  foo?: string
+  bar?: { baz?: number; qux?: number[] }
+}
+
+describe('yaml', () => {
+  it('default extension', () => {
+    const conf = new BaseConf<TestObj>({
+      dir,
+      name: 'default',
+      serializer: createYamlSerializer()
+    })
+    conf.set('foo', 'foo')
+    expect(path.extname(conf.fileName)).toBe('.yaml')
+    expect(fs.readFileSync(conf.fileName, 'utf8')).toBe('foo: foo\n')
+  })
+
+  it('preserve comments and key order', () => {
+    const name = 'comments'
+    fs.writeFileSync(
+      path.join(dir, `${name}.yaml`),
+      [
+        '# top comment',
+        'bar:',
+        '  # baz comment',
+        '  baz: 1 # inline comment',
+        '  qux: [1, 2]',
+        'foo: foo',
+        ''
+      ].join('\n')
+    )
+
+    const conf = new BaseConf<TestObj>({
+      dir,
+      name,
+      serializer: createYamlSerializer()
+    })
+    expect(conf.get('bar.baz')).toBe(1)
+
+    conf.set('bar.baz', 2)
+    conf.delete('foo')
+    conf.set('bar.qux', [3])
+    expect(fs.readFileSync(conf.fileName, 'utf8')).toBe(
+      [
+        '# top comment',
+        'bar:',
+        '  # baz comment',
+        '  baz: 2 # inline comment',
+        '  qux:',
+        '    - 3',
+        ''
+      ].join('\n')
+    )
+  })
+})
+
+describe('toml', () => {
+  it('read and write', () => {
+    const serializer = createTomlSerializer()
+    const conf = new BaseConf<TestObj>({ dir, name: 'toml', serializer })
+    conf.set({ foo: 'foo', bar: { baz: 1 } })
+    expect(path.extname(conf.fileName)).toBe('.toml')
+    expect(
+      new BaseConf<TestObj>({ dir, name: 'toml', serializer }).store
+    ).toEqual({ foo: 'foo', bar: { baz: 1 } })
+  })
+})
+
+describe('json5', () => {
+  it('read and write', () => {
+    const name = 'json5'
+    fs.writeFileSync(
+      path.join(dir, `${name}.json5`),
+      "// comment\n{ foo: 'foo', bar: { baz: 1, }, }\n"
+    )
+    const serializer = createJson5Serializer()
+    const conf = new BaseConf<TestObj>({ dir, name, serializer })
+    expect(conf.get('bar.baz')).toBe(1)
+    conf.set('bar.baz', 2)
+    expect(
+      Object.keys(serializer.read(fs.readFileSync(conf.fileName, 'utf8')))
+    ).toEqual(['foo', 'bar'])
+  })
+})
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
@@ -0,0 +1,128 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { it, expect, afterAll } from 'vitest'
+
+import { BaseConf } from '../src/conf'
+import { ConfError } from '../src/errors'
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'electron-conf-'))
+
+type TestObj = {
+  window?: { width?: number; height?: number; title?: string }
+  update?: { channel?: string }
+}
+
+const systemFileName = path.join(dir, 'system.json')
+const policyFileName = path.join(dir, 'policy.json')
+
+fs.writeFileSync(
+  systemFileName,
+  JSON.stringify({ window: { width: 900 }, update: { channel: 'beta' } })
+)
+fs.writeFileSync(
+  policyFileName,
+  JSON.stringify({ update: { channel: 'stable' } })
+)
+
+const sources = [
+  { fileName: systemFileName },
+  { fileName: policyFileName, locked: true },
+  { fileName: path.join(dir, 'missing.json') }
+]
+
+const defaults = { window: { width: 1024, height: 768 } }
+
+it('resolve the values through the layers', () => {
+  const conf = new BaseConf<TestObj>({
+    dir,
+    name: 'layers',
+    defaults,
+    sources
+  })
+  expect(conf.get('window')).toEqual({ width: 900, height: 768 })
+  expect(conf.get('update.channel')).toBe('stable')
+  expect(conf.store).toEqual({ window: { height: 768 } })
+
+  conf.set('window.width', 800)
+  expect(conf.get('window.width')).toBe(800)
+
+  conf.reset('window.width')
+  expect(conf.get('window.width')).toBe(900)
+})
+
+it('throw on setting the locked items', () => {
+  const conf = new BaseConf<TestObj>({ dir, name: 'locked', sources })
+  expect(() => conf.set('update.channel', 'beta')).toThrowError(ConfError)
+  expect(() => conf.set({ update: {} })).toThrowError(policyFileName)
+  expect(conf.get('update.channel')).toBe('stable')
+})
+
+it('report the source of the values', () => {
+  const conf = new BaseConf<TestObj>({
+    dir,
+    name: 'source',
+    defaults,
+    sources
+  })
+  conf.set('window.title', 'app')
+
+  expect(conf.getSource('window.width')).toEqual({
+    type: 'source',
+    fileName: systemFileName,
+    locked: false
+  })
+  expect(conf.getSource('update.channel')).toEqual({
+    type: 'source',
+    fileName: policyFileName,
+    locked: true
+  })
+  expect(conf.getSource('window.height')).toEqual({ type: 'default' })
+  expect(conf.getSource('window.title')).toEqual({ type: 'user' })
+  expect(conf.getSource('window.foo' as any)).toBeUndefined()
+})
+
+it('keep the layers intact', () => {
+  process.env.SOURCES_CONF__theme__color = '"blue"'
+  try {
+    const themeDefaults = { theme: { color: 'red', size: 1 } }
+    const conf = new BaseConf<TestObj & typeof themeDefaults>({
+      dir,
+      name: 'intact',
+      defaults: themeDefaults,
+      sources,
+      overrides: { env: 'SOURCES_CONF' }
+    })
+    conf.delete('theme')
+    expect(conf.get('theme')).toEqual({ color: 'blue' })
+    expect(conf.defaultValues).toEqual({ theme: { color: 'red', size: 1 } })
+
+    conf.reset('theme')
+    const stored = JSON.parse(fs.readFileSync(conf.fileName, 'utf8'))
+    expect(stored.theme).toEqual({ color: 'red', size: 1 })
+  } finally {
+    delete process.env.SOURCES_CONF__theme__color
+  }
+})
+
+it('delete the items with default values', () => {
+  const conf = new BaseConf<TestObj>({
+    dir,
+    name: 'delete',
+    defaults,
+    sources
+  })
+  conf.delete('window.height')
+  expect(conf.get('window.height')).toBeUndefined()
+  expect(conf.has('window.height')).toBe(false)
+  expect(conf.getSource('window.height')).toBeUndefined()
+
+  conf.set('window.width', 800)
+  conf.clear()
+  expect(conf.get('window')).toEqual({ width: 900, height: 768 })
+  expect(conf.store).toEqual({ window: { height: 768 } })
+})
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
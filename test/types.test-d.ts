@@ -0,0 +1,69 @@
+import { describe, it, expectTypeOf } from 'vitest'
+
+import { BaseConf } from '../src/conf'
+import { Conf } from '../src/renderer'
+
+type TestObj = {
+  foo?: string
+  window: {
+    width: number
+    position?: { x: number; y: number }
+  }
+  list: string[]
+}
+
+describe('dot-path keys', () => {
+  const conf = new BaseConf<TestObj>()
+
+  it('.get()', () => {
+    expectTypeOf(conf.get('foo')).toEqualTypeOf<string | undefined>()
+    expectTypeOf(conf.get('foo', 'bar')).toEqualTypeOf<string>()
+    expectTypeOf(conf.get('window.width')).toEqualTypeOf<number>()
+    expectTypeOf(conf.get('window.position.x')).toEqualTypeOf<
+      number | undefined
+    >()
+    expectTypeOf(conf.get('list')).toEqualTypeOf<string[]>()
+    // @ts-expect-error typo
+    conf.get('window.widht')
+    // @ts-expect-error mismatched default value
+    conf.get('window.width', 'bar')
+  })
+
+  it('.set()', () => {
+    conf.set('window.position', { x: 0, y: 0 })
+    conf.set({ foo: 'bar' })
+    // @ts-expect-error mismatched value
+    conf.set('window.width', 'bar')
+    // @ts-expect-error typo
+    conf.set('window.widht', 1)
+  })
+
+  it('.has(), .delete(), .reset()', () => {
+    conf.has('window.position.y')
+    conf.delete('foo')
+    conf.reset('window.width', 'list')
+    // @ts-expect-error typo
+    conf.delete('fooo')
+  })
+
+  it('.onDidChange()', () => {
+    conf.onDidChange('window.width', (newValue, oldValue) => {
+      expectTypeOf(newValue).toEqualTypeOf<number | undefined>()
+      expectTypeOf(oldValue).toEqualTypeOf<number | undefined>()
+    })
+  })
+
+  it('renderer', () => {
+    const conf = new Conf<TestObj>()
+    expectTypeOf(conf.get('window.width')).toEqualTypeOf<Promise<number>>()
+    // @ts-expect-error typo
+    conf.set('window.widht', 1)
+  })
+
+  it('any key without type', () => {
+    const conf = new BaseConf()
+    expectTypeOf(conf.get('a.b')).toEqualTypeOf<unknown>()
+    expectTypeOf(conf.get('a.b', 1)).toEqualTypeOf<number>()
+    conf.set('a.b', 1)
+  })
+})